@@ -1,4 +1,4 @@
-import { createClient } from "seiro/client";
+import { createClient, createIndexedDbOutbox } from "seiro/client";
 import type { Commands, Queries, Events, User } from "./types";
 import { initAuth } from "./components/auth";
 import { initShipments } from "./components/shipments";
@@ -8,7 +8,12 @@ import "./components/shipments";
 // Create client - use wss:// for https, ws:// for http
 const wsProtocol = window.location.protocol === "https:" ? "wss:" : "ws:";
 const wsUrl = `${wsProtocol}//${window.location.host}/ws`;
-const client = createClient<Commands, Queries, Events>(wsUrl);
+const client = createClient<Commands, Queries, Events>(wsUrl, {
+  // Keep the token out of the URL (and so out of proxy logs)
+  tokenTransport: "protocol",
+  reconnect: true,
+  outbox: createIndexedDbOutbox(),
+});
 
 // Connect and initialize
 async function main() {
@@ -22,7 +22,10 @@ function handleAuthSuccess(result: { token: string; user: User }) {
 }
 
 export function logout() {
-  client.logout();
+  // The token is cleared even if the socket couldn't be logged out
+  client.logout().catch((e: Error) => {
+    authError.value = `Logout failed: ${e.message}`;
+  });
   user.value = null;
 }
 
@@ -1,12 +1,15 @@
-import { signal, effect } from "seiro/client";
+import { signal, computed, effect, type LiveQuery } from "seiro/client";
 import type { Client } from "seiro";
 import type { Commands, Queries, Events, Shipment } from "../types";
 import { user } from "./auth";
 
 type AppClient = Client<Commands, Queries, Events>;
 
-// State
-const shipments = signal(new Map<string, Shipment>());
+// State: the server keeps the live rows current, including after reconnects
+const live = signal<LiveQuery<Shipment> | null>(null);
+const shipments = computed(
+  () => (live.value?.rows.value ?? new Map()) as Map<string, Shipment>,
+);
 const events = signal<string[]>([]);
 
 let client: AppClient;
@@ -14,47 +17,27 @@ let client: AppClient;
 export function initShipments(c: AppClient) {
   client = c;
 
-  // Subscribe to shipment events
+  // Shipment events feed the log; the list is a live query
   client.on("shipment_created", (s) => {
-    updateShipment(s);
     log(`Created: ${s.id} ${s.origin} -> ${s.dest}`);
   });
 
   client.on("shipment_claimed", (s) => {
-    updateShipment(s);
     log(`Claimed: ${s.id} by ${s.carrierId}`);
   });
 
   client.on("shipment_delivered", (s) => {
-    updateShipment(s);
     log(`Delivered: ${s.id}`);
   });
 
-  // Subscribe and load when user becomes available
+  // Subscribe and go live when user becomes available
   effect(() => {
-    if (user.value) {
-      client.subscribe();
-      loadShipments();
-    }
+    live.peek()?.close();
+    live.value = user.value ? client.live("shipments.all") : null;
+    if (user.value) client.subscribe();
   });
 }
 
-async function loadShipments() {
-  try {
-    for await (const shipment of client.query("shipments.all")) {
-      updateShipment(shipment);
-    }
-  } catch {
-    // Not authenticated
-  }
-}
-
-function updateShipment(shipment: Shipment) {
-  const next = new Map(shipments.value);
-  next.set(shipment.id, shipment);
-  shipments.value = next;
-}
-
 function log(msg: string) {
   const time = new Date().toLocaleTimeString();
   events.value = [`[${time}] ${msg}`, ...events.value].slice(0, 50);
@@ -160,11 +143,20 @@ class CreateForm extends HTMLElement {
         <input name="dest" placeholder="Destination (e.g. LAX)" required
           class="bg-zinc-800 border border-zinc-700 rounded px-3 py-1.5 text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-zinc-500 w-32" />
         <button type="submit" class="bg-zinc-700 hover:bg-zinc-600 text-white px-4 py-1.5 rounded text-sm">Create</button>
+        <span class="unsynced hidden text-amber-400 text-sm"></span>
       </form>
     `;
 
     this.loginPrompt = this.querySelector(".login-prompt")!;
     this.form = this.querySelector("form")!;
+    const unsynced = this.querySelector<HTMLElement>(".unsynced")!;
+
+    // Commands waiting in the outbox until the server acknowledges them
+    effect(() => {
+      const count = client.pending.value.length;
+      unsynced.textContent = `${count} unsynced`;
+      unsynced.classList.toggle("hidden", count === 0);
+    });
 
     effect(() => {
       if (user.value) {
@@ -1,5 +1,5 @@
 import postgres from "postgres";
-import { createServer } from "seiro/server";
+import { createServer, createPostgresIdempotencyStore } from "seiro/server";
 import homepage from "./index.html";
 import { register as registerShipment } from "./shipment/server";
 import { register as registerAuth, verifyToken } from "./auth/server";
@@ -17,6 +17,10 @@ const server = createServer<Commands, Queries, Events>({
     verify: verifyToken,
     public: ["auth.register", "auth.login"],
   },
+  // Outbox replays reuse the command cid; answer them from the store
+  idempotency: { store: createPostgresIdempotencyStore(sql) },
+  // Replay missed shipment events to reconnecting clients
+  retention: true,
   healthCheck: async () => {
     await sql`SELECT 1`;
     return true;
@@ -30,3 +34,10 @@ const app = await server.start({ "/": homepage });
 
 console.log(`Server running at ${app.url}`);
 console.log(`WebSocket at ws://localhost:${PORT}/ws`);
+
+// On deploy, let running commands finish and send clients elsewhere
+process.on("SIGTERM", async () => {
+  await server.stop({ drainTimeout: 10_000 });
+  await Promise.all([sql.end(), listener.end()]);
+  process.exit(0);
+});
@@ -1,6 +1,6 @@
 import type { Sql } from "postgres";
 import type { Server } from "seiro";
-import { notifyLogger } from "seiro/server";
+import { createNotifyBridge } from "seiro/server";
 import type {
   Shipment,
   ShipmentCommands,
@@ -19,23 +19,15 @@ export async function register<
   Q extends ShipmentQueries,
   E extends ShipmentEvents,
 >(server: Server<C, Q, E>, sql: Sql, listener?: Sql) {
-  // Listen to postgres notifications
-  // The onlisten callback (3rd param) is called on connect AND reconnect
+  // Forward postgres notifications to subscribed clients. Shipments are
+  // private to the user who created them.
   if (listener) {
-    for (const channel of channels) {
-      await listener.listen(
-        channel,
-        (payload: string) => {
-          try {
-            server.emit(channel, JSON.parse(payload) as Shipment);
-          } catch (e) {
-            notifyLogger.error(`Failed to parse ${channel} payload:`, payload, e);
-          }
-        },
-        () => notifyLogger.info(`Listening on ${channel}`),
-      );
-    }
+    await createNotifyBridge<ShipmentEvents>(server, listener, {
+      channels: [...channels],
+      route: (_channel, shipment) => ({ to: shipment.userId }),
+    });
   }
+
   // Commands
 
   server.command("shipment.create", async (data, ctx) => {
@@ -55,15 +47,34 @@ export async function register<
 
   // Queries
 
-  server.query("shipments.all", async function* (params, ctx) {
-    if (!ctx.userId) throw new Error("Not authenticated");
-    const rows = await sql<{ query_shipments_all: Shipment }[]>`
-      SELECT query_shipments_all(${ctx.userId}, ${sql.json(params ?? {})})
-    `;
-    for (const row of rows) {
-      yield row.query_shipments_all;
-    }
-  });
+  server.query(
+    "shipments.all",
+    async function* (params, ctx) {
+      if (!ctx.userId) throw new Error("Not authenticated");
+      // Stream through a cursor; if the client cancels, the server stops
+      // iterating this generator and the cursor is closed
+      const cursor = sql<{ query_shipments_all: Shipment }[]>`
+        SELECT query_shipments_all(${ctx.userId}, ${sql.json(params ?? {})})
+      `.cursor(100);
+      for await (const rows of cursor) {
+        for (const row of rows) {
+          yield row.query_shipments_all;
+        }
+      }
+    },
+    {
+      // Every shipment event carries the whole row, so live clients get
+      // it as an upsert instead of a re-run
+      live: {
+        events: [...channels],
+        key: (shipment) => shipment.id,
+        apply: (_event, data, _params, ctx) => {
+          const shipment = data as Shipment;
+          return shipment.userId === ctx.userId ? { upsert: shipment } : null;
+        },
+      },
+    },
+  );
 
   server.query("shipments.by_status", async function* (params, ctx) {
     if (!ctx.userId) throw new Error("Not authenticated");
@@ -0,0 +1,234 @@
+import { describe, test, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { createServer } from "./server";
+import { createClient } from "./client";
+import {
+  createMemoryBackplane,
+  createPostgresBackplane,
+  type BackplaneMessage,
+  type PostgresNotifier,
+} from "./backplane";
+import type { Command } from "./types";
+import { serverLogger } from "./logger";
+import { settle } from "./test-helpers";
+
+type TestCommands = {
+  "test.join": Command<{ room: string }, void>;
+  "test.connection": Command<void, { connectionId: string }>;
+};
+
+type TestEvents = {
+  test_event: { value: number };
+};
+
+const PORTS = [3461, 3462];
+
+describe("backplane", () => {
+  const backplane = createMemoryBackplane();
+  const nodes = PORTS.map((port) => {
+    const serverApi = createServer<TestCommands, {}, TestEvents>({
+      port,
+      backplane,
+      auth: {
+        verify: async (token) => Number(token) || null,
+        public: [],
+      },
+    });
+    serverApi.command("test.join", async (data, ctx) => ctx.join(data.room));
+    serverApi.command("test.connection", async (_data, ctx) => ({
+      connectionId: ctx.connectionId,
+    }));
+    serverApi.onOpen(async (ctx) => {
+      ctx.send({ profile: null });
+    });
+    return serverApi;
+  });
+  const [a, b] = nodes as [(typeof nodes)[0], (typeof nodes)[0]];
+  const servers: { stop(force?: boolean): void }[] = [];
+
+  beforeAll(async () => {
+    for (const node of nodes) servers.push(await node.start());
+  });
+
+  afterAll(() => {
+    for (const server of servers) server.stop(true);
+  });
+
+  async function connect(port: number, userId: number, subscribe = true) {
+    const client = createClient<TestCommands, {}, TestEvents>(
+      `ws://localhost:${port}/ws`,
+      { token: String(userId) },
+    );
+    await client.connect();
+    const events: unknown[] = [];
+    client.on("test_event", (data) => events.push(data));
+    if (subscribe) client.subscribe();
+    return { client, events };
+  }
+
+  test("emit reaches subscribers on every node exactly once", async () => {
+    const onA = await connect(PORTS[0]!, 1);
+    const onB = await connect(PORTS[1]!, 2);
+    await settle();
+
+    a.emit("test_event", { value: 1 });
+    await settle();
+
+    expect(onA.events).toEqual([{ value: 1 }]);
+    expect(onB.events).toEqual([{ value: 1 }]);
+    onA.client.close();
+    onB.client.close();
+  });
+
+  test("emit `to` is applied on remote nodes", async () => {
+    const one = await connect(PORTS[1]!, 1);
+    const two = await connect(PORTS[1]!, 2);
+    await settle();
+
+    a.emit("test_event", { value: 1 }, { to: 2 });
+    await settle();
+
+    expect(one.events).toEqual([]);
+    expect(two.events).toEqual([{ value: 1 }]);
+    one.client.close();
+    two.client.close();
+  });
+
+  test("emits with a filter stay on the emitting node", async () => {
+    const onA = await connect(PORTS[0]!, 1);
+    const onB = await connect(PORTS[1]!, 1);
+    await settle();
+
+    const warn = spyOn(serverLogger, "warn");
+    a.emit("test_event", { value: 1 }, { filter: () => true });
+    a.emit("test_event", { value: 2 }, { filter: () => true });
+    await settle();
+
+    expect(onA.events).toEqual([{ value: 1 }, { value: 2 }]);
+    expect(onB.events).toEqual([]);
+    // Warned once per channel
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+    onA.client.close();
+    onB.client.close();
+  });
+
+  test("local emits stay on the emitting node", async () => {
+    const onA = await connect(PORTS[0]!, 1);
+    const onB = await connect(PORTS[1]!, 1);
+    await settle();
+
+    a.emit("test_event", { value: 1 }, { local: true });
+    await settle();
+
+    expect(onA.events).toEqual([{ value: 1 }]);
+    expect(onB.events).toEqual([]);
+    onA.client.close();
+    onB.client.close();
+  });
+
+  test("toUser, toRoom and toConnection cross nodes", async () => {
+    const tabA = await connect(PORTS[0]!, 7, false);
+    const tabB = await connect(PORTS[1]!, 7, false);
+    await tabB.client.call("test.join", { room: "team:1" });
+    const { connectionId } = await tabB.client.call(
+      "test.connection",
+      undefined as unknown as void,
+    );
+
+    a.toUser(7).send("test_event", { value: 1 });
+    a.toRoom("team:1").send("test_event", { value: 2 });
+    a.toConnection(connectionId).send("test_event", { value: 3 });
+    await settle();
+
+    expect(tabA.events).toEqual([{ value: 1 }]);
+    expect(tabB.events).toEqual([{ value: 1 }, { value: 2 }, { value: 3 }]);
+    tabA.client.close();
+    tabB.client.close();
+  });
+});
+
+describe("postgres backplane", () => {
+  // Stand-in for a postgres Sql instance: notify calls every listener,
+  // and the spill table is an array
+  function fakeSql() {
+    const listeners = new Map<string, ((payload: string) => void)[]>();
+    const spilled: string[] = [];
+    const sql: PostgresNotifier = {
+      async listen(channel, onnotify, onlisten) {
+        listeners.set(channel, [...(listeners.get(channel) ?? []), onnotify]);
+        onlisten?.();
+      },
+      async notify(channel, payload) {
+        expect(payload.length).toBeLessThan(8000);
+        for (const listener of listeners.get(channel) ?? []) listener(payload);
+      },
+      async unsafe(query, params = []) {
+        if (query.startsWith("INSERT")) {
+          spilled.push(params[0] as string);
+          return [{ id: spilled.length }];
+        }
+        if (query.startsWith("SELECT")) {
+          return [{ payload: spilled[(params[0] as number) - 1] }];
+        }
+        return [];
+      },
+    };
+    return { sql, listeners, spilled };
+  }
+
+  test("publishes MessagePack on the channel and decodes it back", async () => {
+    const { sql } = fakeSql();
+    const backplane = createPostgresBackplane(sql, "events");
+    const received: BackplaneMessage[] = [];
+    await backplane.subscribe((message) => received.push(message));
+
+    await backplane.publish({ origin: "n1", ev: "test_event", data: { value: 1 }, room: "r" });
+
+    expect(received).toEqual([
+      { origin: "n1", ev: "test_event", data: { value: 1 }, room: "r" },
+    ]);
+  });
+
+  test("BigInt and Date data arrive intact", async () => {
+    const { sql } = fakeSql();
+    const backplane = createPostgresBackplane(sql);
+    const received: BackplaneMessage[] = [];
+    await backplane.subscribe((message) => received.push(message));
+    const at = new Date("2026-01-02T03:04:05Z");
+
+    await backplane.publish({ origin: "n1", ev: "doc", data: { n: 10n, at } });
+
+    expect(received).toEqual([
+      { origin: "n1", ev: "doc", data: { n: 10n, at } },
+    ]);
+  });
+
+  test("ignores payloads that are not MessagePack", async () => {
+    const { sql, listeners } = fakeSql();
+    const backplane = createPostgresBackplane(sql);
+    const received: BackplaneMessage[] = [];
+    await backplane.subscribe((message) => received.push(message));
+
+    listeners.get("seiro_events")![0]!("not json");
+    listeners.get("seiro_events")![0]!('{"ev":"test_event"}');
+
+    expect(received).toEqual([]);
+  });
+
+  test("messages too large for NOTIFY are fetched from the table", async () => {
+    const { sql, spilled } = fakeSql();
+    const backplane = createPostgresBackplane(sql);
+    const received: BackplaneMessage[] = [];
+    await backplane.subscribe((message) => received.push(message));
+    const large = { origin: "n1", ev: "doc", data: { text: "x".repeat(9000) } };
+    const small = { origin: "n1", ev: "doc", data: { text: "y" } };
+
+    await backplane.publish(large);
+    await backplane.publish(small);
+    await settle(10);
+
+    expect(spilled).toHaveLength(1);
+    // Still in the order they were published
+    expect(received).toEqual([large, small]);
+  });
+});
@@ -0,0 +1,172 @@
+// Backplanes fan events out between server instances, so an emit on one
+// node reaches sockets connected to the others
+
+import { encodeMsgpack, decodeMsgpack } from "./codec";
+import { notifyLogger } from "./logger";
+
+// An event and who should get it: subscribers (optionally only some
+// users), or a single user, connection or room. `origin` is the sending
+// node, which has already delivered to its own sockets.
+export type BackplaneMessage = { origin: string; ev: string; data: unknown } & (
+  | { to?: number[] }
+  | { user: number }
+  | { connection: string }
+  | { room: string }
+);
+
+export interface Backplane {
+  publish(message: BackplaneMessage): Promise<void>;
+  subscribe(handler: (message: BackplaneMessage) => void): Promise<void>;
+}
+
+// In-process: share one instance between servers, e.g. in tests
+export function createMemoryBackplane(): Backplane {
+  const handlers = new Set<(message: BackplaneMessage) => void>();
+  return {
+    async publish(message) {
+      // Deliver asynchronously, as a real network would
+      queueMicrotask(() => {
+        for (const handler of handlers) handler(message);
+      });
+    },
+    async subscribe(handler) {
+      handlers.add(handler);
+    },
+  };
+}
+
+// Structural type satisfied by the `postgres` package's Sql instance
+export type PostgresNotifier = {
+  listen: (
+    channel: string,
+    onnotify: (payload: string) => void,
+    onlisten?: () => void,
+  ) => PromiseLike<unknown>;
+  notify: (channel: string, payload: string) => PromiseLike<unknown>;
+  unsafe: (
+    query: string,
+    params?: (string | number)[],
+  ) => PromiseLike<readonly unknown[]>;
+};
+
+// NOTIFY payloads must be shorter than 8000 bytes
+const MAX_NOTIFY_BYTES = 8000;
+
+// How long a spilled message is kept for the other nodes to fetch
+const SPILL_TTL = "1 minute";
+
+type SpillRef = { $fetch: number };
+
+// Sent as base64 MessagePack: event data may hold BigInt, Date or binary
+// values that JSON would fail on or turn into strings
+function encode(value: unknown): string {
+  return Buffer.from(encodeMsgpack(value)).toString("base64");
+}
+
+function isSpillRef(value: unknown): value is SpillRef {
+  return typeof value === "object" && value !== null && "$fetch" in value;
+}
+
+// Postgres LISTEN/NOTIFY. Messages too large for a NOTIFY are stored in
+// `table` and announced as `{$fetch: id}`, which the other nodes load.
+export function createPostgresBackplane(
+  sql: PostgresNotifier,
+  channel = "seiro_events",
+  table = "seiro_backplane",
+): Backplane {
+  let ready: PromiseLike<unknown> | null = null;
+  // Create the table on first use
+  const init = () =>
+    (ready ??= sql.unsafe(
+      `CREATE TABLE IF NOT EXISTS ${table} (
+        id bigserial PRIMARY KEY,
+        payload text NOT NULL,
+        created_at timestamptz NOT NULL DEFAULT now()
+      )`,
+    ));
+
+  async function spill(payload: string): Promise<string> {
+    await init();
+    await sql.unsafe(
+      `DELETE FROM ${table} WHERE created_at < now() - interval '${SPILL_TTL}'`,
+    );
+    const rows = (await sql.unsafe(
+      `INSERT INTO ${table} (payload) VALUES ($1) RETURNING id`,
+      [payload],
+    )) as { id: string | number }[];
+    return encode({ $fetch: Number(rows[0]!.id) });
+  }
+
+  async function load(ref: SpillRef): Promise<string | undefined> {
+    await init();
+    const rows = (await sql.unsafe(
+      `SELECT payload FROM ${table} WHERE id = $1`,
+      [ref.$fetch],
+    )) as { payload: string }[];
+    return rows[0]?.payload;
+  }
+
+  return {
+    async publish(message) {
+      const payload = encode(message);
+      const small = payload.length < MAX_NOTIFY_BYTES;
+      await sql.notify(channel, small ? payload : await spill(payload));
+    },
+    async subscribe(handler) {
+      // Set while a spilled message is being fetched; later messages wait
+      // behind it so they are handled in the order they were sent
+      let queue: Promise<void> | null = null;
+
+      function parse(payload: string): unknown {
+        let message: unknown;
+        try {
+          message = decodeMsgpack(Buffer.from(payload, "base64"));
+        } catch (e) {
+          notifyLogger.error(`Bad backplane payload on ${channel}:`, e);
+          return undefined;
+        }
+        if (typeof message !== "object" || message === null) {
+          notifyLogger.error(`Bad backplane payload on ${channel}:`, message);
+          return undefined;
+        }
+        return message;
+      }
+
+      async function fetched(ref: SpillRef) {
+        const payload = await load(ref);
+        if (payload === undefined) {
+          notifyLogger.warn(`Backplane message ${ref.$fetch} has expired`);
+          return;
+        }
+        const message = parse(payload);
+        if (message !== undefined) handler(message as BackplaneMessage);
+      }
+
+      function receive(payload: string) {
+        const message = parse(payload);
+        if (message === undefined) return;
+        if (!queue && !isSpillRef(message)) {
+          handler(message as BackplaneMessage);
+          return;
+        }
+        const next: Promise<void> = (queue ?? Promise.resolve())
+          .then(() =>
+            isSpillRef(message)
+              ? fetched(message)
+              : handler(message as BackplaneMessage),
+          )
+          .catch((e) =>
+            notifyLogger.error("Failed to load backplane message:", e),
+          )
+          .finally(() => {
+            if (queue === next) queue = null;
+          });
+        queue = next;
+      }
+
+      await sql.listen(channel, receive, () =>
+        notifyLogger.info(`Backplane listening on ${channel}`),
+      );
+    },
+  };
+}
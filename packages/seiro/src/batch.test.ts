@@ -0,0 +1,120 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createServer } from "./server";
+import { createClient } from "./client";
+import type { Command, Query } from "./types";
+import { until, sleep, greeted } from "./test-helpers";
+
+type TestCommands = {
+  "test.echo": Command<{ value: number }, { value: number }>;
+};
+
+type TestQueries = {
+  "test.count": Query<{ to: number; text?: number; delay?: number }, object>;
+};
+
+const PORT = 3466;
+const WS_URL = `ws://localhost:${PORT}/ws`;
+
+describe("batching", () => {
+  const serverApi = createServer<TestCommands, TestQueries>({
+    port: PORT,
+    rowBatch: { count: 100, bytes: 1024, delay: 10 },
+  });
+
+  serverApi.command("test.echo", async (data) => data);
+
+  serverApi.query("test.count", async function* (params) {
+    const text = "x".repeat(params.text ?? 0);
+    for (let n = 1; n <= params.to; n++) {
+      if (params.delay) await sleep(params.delay);
+      yield params.text ? { n, text } : { n };
+    }
+  });
+
+  serverApi.onOpen(async (ctx) => {
+    ctx.send({ profile: null });
+  });
+
+  let server: Awaited<ReturnType<typeof serverApi.start>>;
+
+  beforeAll(async () => {
+    server = await serverApi.start();
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  // Rows per frame until the end marker
+  async function chunks(params: object, extra: object = { batch: true }) {
+    const { ws, messages } = await greeted(WS_URL);
+    ws.send(JSON.stringify({ q: "test.count", id: 1, params, ...extra }));
+    await until(() => messages.some((m) => !("row" in m || "rows" in m)));
+    ws.close();
+    return messages.map((m) =>
+      Array.isArray(m.rows) ? m.rows.length : "row" in m ? "row" : "end",
+    );
+  }
+
+  test("rows are chunked by count", async () => {
+    expect(await chunks({ to: 250 })).toEqual([100, 100, 50, "end"]);
+  });
+
+  test("rows are chunked by size", async () => {
+    expect(await chunks({ to: 10, text: 300 })).toEqual([4, 4, 2, "end"]);
+  });
+
+  test("slow rows are sent after the delay", async () => {
+    expect(await chunks({ to: 3, delay: 30 })).toEqual([1, 1, 1, "end"]);
+  });
+
+  test("queries without batch get a frame per row", async () => {
+    expect(await chunks({ to: 3 }, {})).toEqual(["row", "row", "row", "end"]);
+  });
+
+  test("the client reads chunked rows", async () => {
+    const client = createClient<TestCommands, TestQueries>(WS_URL);
+    await client.connect();
+
+    const rows = await client.queryAll("test.count", { to: 250 });
+
+    expect(rows).toHaveLength(250);
+    expect(rows.at(-1)).toEqual({ n: 250 });
+    client.close();
+  });
+
+  test("an array frame runs every message in it", async () => {
+    const { ws, messages } = await greeted(WS_URL);
+    ws.send(
+      JSON.stringify([
+        { cmd: "test.echo", cid: "a", data: { value: 1 }, ack: true },
+        { cmd: "test.echo", cid: "b", data: { value: 2 }, ack: true },
+      ]),
+    );
+    await until(() => messages.length === 2);
+
+    expect(messages).toContainEqual({ cid: "a", result: { value: 1 } });
+    expect(messages).toContainEqual({ cid: "b", result: { value: 2 } });
+    ws.close();
+  });
+
+  test("a batching client sends a tick's messages together", async () => {
+    const client = createClient<TestCommands, TestQueries>(WS_URL, {
+      batch: true,
+    });
+    await client.connect();
+
+    const results = await Promise.all([
+      client.call("test.echo", { value: 1 }),
+      client.call("test.echo", { value: 2 }),
+      client.queryAll("test.count", { to: 3 }),
+    ]);
+
+    expect(results).toEqual([
+      { value: 1 },
+      { value: 2 },
+      [{ n: 1 }, { n: 2 }, { n: 3 }],
+    ]);
+    client.close();
+  });
+});
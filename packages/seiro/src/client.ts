@@ -1,19 +1,49 @@
-import { signal, computed, effect, type Signal } from "@preact/signals-core";
+import {
+  signal,
+  computed,
+  effect,
+  type Signal,
+  type ReadonlySignal,
+} from "@preact/signals-core";
 import {
   isCmdError,
   isCmdResult,
   isRow,
   isEnd,
+  isQueryError,
   isEvent,
-  encode,
-  decode,
+  isSession,
+  isSessionError,
+  isSubAck,
+  isSubError,
+  isLiveDiff,
+  isRows,
+  isWelcome,
+  isWelcomeError,
+  isPong,
+  isGoAway,
+  encodeBearer,
   cid,
+  type LiveDiff,
+  type LiveKey,
+  SUBPROTOCOL,
+  BEARER_PREFIX,
+  PROTOCOL_VERSION,
+  type Cmd,
 } from "./protocol";
+import { SeiroError, ErrorCodes } from "./errors";
+import { jsonCodec, codecProtocol, type Codec } from "./codec";
+import {
+  createMemoryOutbox,
+  type OutboxEntry,
+  type OutboxStore,
+} from "./outbox";
 import type {
   CommandsDef,
   QueriesDef,
   EventsDef,
   CommandData,
+  CommandResult,
   QueryParams,
   QueryRow,
   EventData,
@@ -21,32 +51,216 @@ import type {
 
 type Listener = (msg: unknown) => void;
 
-export { signal, computed, effect, type Signal };
+export { signal, computed, effect, type Signal, type ReadonlySignal };
+export { SeiroError, ErrorCodes, type ErrorInfo } from "./errors";
+export { jsonCodec, msgpackCodec, type Codec } from "./codec";
+export {
+  createMemoryOutbox,
+  createIndexedDbOutbox,
+  type OutboxEntry,
+  type OutboxStore,
+} from "./outbox";
+
+// Command error callback: the plain message first (as older versions
+// passed), then the structured error with code and details
+type CmdErrorCallback = (err: string, error: SeiroError) => void;
+
+export type QueryOptions = {
+  // Aborting cancels the query on the server and rejects the iterator
+  signal?: AbortSignal;
+  // Most rows the server may send ahead of the loop consuming them
+  // (defaults to the client's queryWindow)
+  window?: number;
+};
+
+// A query kept current by the server: `rows` is keyed by the row key the
+// server's live options declare
+export type LiveQuery<Row> = {
+  rows: ReadonlySignal<Map<LiveKey, Row>>;
+  // True once the first snapshot has arrived
+  ready: ReadonlySignal<boolean>;
+  error: ReadonlySignal<SeiroError | null>;
+  close: () => void;
+};
+
+export type CallOptions = {
+  // Milliseconds to wait for the result; 0 waits forever
+  timeout?: number;
+  signal?: AbortSignal;
+};
+
+export type ConnectionStatus =
+  "connecting" | "open" | "reconnecting" | "closed";
+
+// What the server said in its welcome; null on servers from before the
+// handshake
+export type ConnectionInfo = {
+  id: string;
+  version: number;
+  codec: string;
+  capabilities: string[];
+};
+
+// Problems the client deals with itself but the app may want to show or
+// log: a subscription the server refused, a socket dropped because pings
+// went unanswered, or an outbox store that failed
+export type ClientErrorInfo =
+  | { source: "subscription"; pattern: string; error: SeiroError }
+  | { source: "heartbeat" | "outbox"; error: SeiroError };
+
+// Exponential backoff: delays grow from initialDelay by factor up to
+// maxDelay, each reduced by a random fraction of up to `jitter`
+export type ReconnectOptions = {
+  initialDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  jitter?: number;
+  maxAttempts?: number;
+};
+
+// How the token reaches the server at connect: the `?token=` query
+// string, a `Sec-WebSocket-Protocol` bearer, an `auth` message sent
+// right after connecting, or not at all when an HttpOnly cookie set by
+// the server carries it
+export type TokenTransport = "query" | "protocol" | "message" | "cookie";
+
+export type ClientOptions = {
+  tokenKey?: string;
+  token?: string;
+  // Defaults to "query"
+  tokenTransport?: TokenTransport;
+  reconnect?: boolean | ReconnectOptions;
+  // Queue commands while offline and replay them on reconnect;
+  // `true` keeps them in memory, or pass a store such as IndexedDB
+  outbox?: boolean | OutboxStore;
+  // Default timeout for call(), in milliseconds (30s)
+  commandTimeout?: number;
+  // Default query window: rows buffered before the server waits (100)
+  queryWindow?: number;
+  // Send messages issued in the same tick as one frame
+  batch?: boolean;
+  // Wire format to ask the server for, e.g. msgpackCodec; JSON is used
+  // if the server doesn't accept it
+  codec?: Codec;
+  // Ping at the interval the server asks for, dropping the socket when
+  // nothing comes back within `timeout` ms (10s); on by default
+  heartbeat?: boolean | { timeout?: number };
+};
 
 export function createClient<
   C extends CommandsDef = CommandsDef,
   Q extends QueriesDef = QueriesDef,
   E extends EventsDef = EventsDef,
->(url: string, options: { tokenKey?: string; token?: string } = {}) {
+>(url: string, options: ClientOptions = {}) {
   const tokenKey = options.tokenKey ?? "seiro_token";
   let memoryToken: string | null = options.token ?? null;
+  const commandTimeout = options.commandTimeout ?? 30_000;
+  const queryWindow = options.queryWindow ?? 100;
+  const heartbeat =
+    options.heartbeat === false
+      ? null
+      : {
+          timeout: 10_000,
+          ...(options.heartbeat === true ? {} : options.heartbeat),
+        };
+  const codec = options.codec ?? jsonCodec;
+  // Subprotocols offered, preferred first: the codec, JSON, then plain
+  // "seiro" so servers from before the handshake still accept the socket
+  const protocols = [
+    ...new Set([codecProtocol(codec), codecProtocol(jsonCodec)]),
+    SUBPROTOCOL,
+  ];
+  const tokenTransport = options.tokenTransport ?? "query";
+  const backoff = options.reconnect
+    ? {
+        initialDelay: 500,
+        maxDelay: 30_000,
+        factor: 2,
+        jitter: 0.5,
+        maxAttempts: Infinity,
+        ...(options.reconnect === true ? {} : options.reconnect),
+      }
+    : null;
 
   let ws: WebSocket | null = null;
+  // Codec of the current socket
+  let wire: Codec = jsonCodec;
   let queryId = 0;
   const queryListeners = new Map<
     number,
-    { onRow: Listener; onEnd: () => void; onError: (e: string) => void }
+    { onRow: Listener; onEnd: () => void; onError: (e: SeiroError) => void }
   >();
   const cmdListeners = new Map<
     string,
-    { onSuccess?: (result: unknown) => void; onError?: (err: string) => void }
+    { onSuccess?: (result: unknown) => void; onError?: CmdErrorCallback }
   >();
   const eventListeners = new Map<string, Set<Listener>>();
+  // auth/logout requests awaiting their session reply, in send order
+  const sessionWaiters: {
+    resolve: (profile: unknown) => void;
+    reject: (e: SeiroError) => void;
+  }[] = [];
+  let lastProfile: unknown = null;
+  // Last event seq per channel, and patterns the server has acked, so
+  // resubscribing asks for missed events
+  const seen = new Map<string, number>();
+  const acked = new Set<string>();
+  // Server the seqs in `seen` come from; each counts its own
+  let seqNode: string | undefined;
+  const resyncListeners = new Set<(pattern: string) => void>();
+  const errorListeners = new Set<(info: ClientErrorInfo) => void>();
+  // Live queries survive reconnects: they are restarted on every socket
+  const liveQueries = new Map<
+    number,
+    {
+      start: () => void;
+      onDiff: (diff: LiveDiff) => void;
+      onError: (e: SeiroError) => void;
+    }
+  >();
   let connectPromise: Promise<unknown> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let closing = false;
 
-  const connected = signal(false);
+  const status = signal<ConnectionStatus>("closed");
+  const connected = computed(() => status.value === "open");
+  const connection = signal<ConnectionInfo | null>(null);
+  // Round trip of the last ping, in milliseconds
+  const latency = signal<number | null>(null);
   let subscribed = false;
 
+  const outbox =
+    options.outbox === true ? createMemoryOutbox() : options.outbox || null;
+  const pending = signal<OutboxEntry[]>([]);
+  // cids already written to the current socket, so replay sends each once
+  const sentOnSocket = new Set<string>();
+  // Live query ids started on the current socket, so each starts once
+  const liveOnSocket = new Set<number>();
+  let lastSeq = 0;
+  const outboxLoaded = outbox
+    ? outbox
+        .load()
+        .then((stored) => {
+          const queued = new Set(pending.value.map((e) => e.cid));
+          const restored = stored.filter((e) => !queued.has(e.cid));
+          lastSeq = Math.max(lastSeq, ...stored.map((e) => e.seq));
+          pending.value = [...restored, ...pending.value];
+        })
+        .catch(outboxFailed)
+    : Promise.resolve();
+
+  function reportError(info: ClientErrorInfo) {
+    for (const listener of errorListeners) listener(info);
+  }
+
+  function outboxFailed(e: unknown) {
+    reportError({
+      source: "outbox",
+      error: SeiroError.from(e, "outbox failed"),
+    });
+  }
+
   function getToken(): string | null {
     if (typeof localStorage !== "undefined") {
       return localStorage.getItem(tokenKey);
@@ -67,7 +281,7 @@ export function createClient<
 
   function buildUrl(): string {
     const token = getToken();
-    if (token) {
+    if (token && tokenTransport === "query") {
       const u = new URL(url);
       u.searchParams.set("token", token);
       return u.toString();
@@ -75,32 +289,208 @@ export function createClient<
     return url;
   }
 
+  function openSocket(): WebSocket {
+    const token = getToken();
+    let socket: WebSocket;
+    if (token && tokenTransport === "protocol") {
+      socket = new WebSocket(url, [
+        ...protocols,
+        BEARER_PREFIX + encodeBearer(token),
+      ]);
+    } else {
+      socket = new WebSocket(buildUrl(), protocols);
+    }
+    socket.binaryType = "arraybuffer";
+    return socket;
+  }
+
   function connect<P = unknown>(): Promise<P | null> {
     if (connectPromise) return connectPromise as Promise<P | null>;
 
+    closing = false;
     connectPromise = new Promise<P | null>((resolve, reject) => {
-      ws = new WebSocket(buildUrl());
+      const socket = openSocket();
+      ws = socket;
+      // Until the server selects a codec, and if it doesn't, it's JSON
+      let socketCodec = jsonCodec;
+      sentOnSocket.clear();
+      liveOnSocket.clear();
+      if (status.value !== "reconnecting") status.value = "connecting";
       let profileReceived = false;
+      // Waiting on the auth message sent by the "message" transport
+      let handshaking = false;
+      // The server said it is shutting down
+      let goingAway = false;
+      let pingTimer: ReturnType<typeof setInterval> | null = null;
+      let pongTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const opened = (profile: P | null) => {
+        profileReceived = true;
+        attempts = 0;
+        status.value = "open";
+        // Restore subscriptions on every new socket
+        if (subscribed) {
+          for (const pattern of eventListeners.keys()) {
+            send(subMessage(pattern));
+          }
+        }
+        for (const id of liveQueries.keys()) startLive(id);
+        flushOutbox();
+        resolve(profile);
+      };
+
+      socket.onerror = (e) => reject(e);
+
+      socket.onopen = () => {
+        if (socket.protocol === codecProtocol(codec)) socketCodec = codec;
+        if (ws === socket) wire = socketCodec;
+        // A codec subprotocol means the server waits for our hello; on
+        // plain "seiro" it sends the profile unprompted
+        if (socket.protocol && socket.protocol !== SUBPROTOCOL) {
+          socket.send(socketCodec.encode({ hello: PROTOCOL_VERSION }));
+        }
+      };
+
+      // The server's first message carries the profile; with the
+      // "message" transport, authenticate before reporting the socket
+      // open. A rejected token leaves it anonymous, as with the others.
+      const greeted = (profile: P | null) => {
+        const token = getToken();
+        if (tokenTransport === "message" && token) {
+          handshaking = true;
+          sessionWaiters.push({
+            resolve: (authed) => opened(authed as P | null),
+            reject: () => {
+              if (ws === socket) opened(profile);
+            },
+          });
+          send({ auth: token });
+          return;
+        }
+        opened(profile);
+      };
+
+      // Ping as often as the server asks. Any message shows the socket
+      // is alive; without one the network may have gone, leaving a
+      // half-open socket that would never report closing.
+      const beat = (interval: number) => {
+        if (!heartbeat) return;
+        pingTimer = setInterval(() => {
+          socket.send(socketCodec.encode({ ping: Date.now() }));
+          pongTimer ??= setTimeout(() => {
+            socket.onclose = null;
+            socket.close();
+            closed();
+            reportError({
+              source: "heartbeat",
+              error: new SeiroError(ErrorCodes.TIMEOUT, "No reply to ping"),
+            });
+          }, heartbeat.timeout);
+        }, interval);
+      };
+
+      socket.onmessage = (e) => {
+        const msg = socketCodec.decode(e.data as string | ArrayBuffer);
+        if (pongTimer) clearTimeout(pongTimer);
+        pongTimer = null;
+
+        if (isPong(msg)) {
+          latency.value = Date.now() - msg.pong;
+          return;
+        }
 
-      ws.onerror = (e) => reject(e);
+        if (isGoAway(msg)) {
+          goingAway = true;
+          return;
+        }
+
+        // Later profiles are re-sent after auth/logout
+        if (
+          (profileReceived || handshaking) &&
+          typeof msg === "object" &&
+          msg !== null &&
+          "profile" in msg
+        ) {
+          lastProfile = (msg as { profile: unknown }).profile;
+          return;
+        }
 
-      ws.onmessage = (e) => {
-        const msg = decode(e.data as string);
+        if (isSession(msg)) {
+          sessionWaiters.shift()?.resolve(lastProfile);
+          lastProfile = null;
+          // The server may have revoked subscriptions; ask again for all
+          if (subscribed && profileReceived) {
+            for (const pattern of eventListeners.keys()) {
+              send(subMessage(pattern));
+            }
+          }
+          return;
+        }
+
+        if (isSessionError(msg)) {
+          sessionWaiters.shift()?.reject(SeiroError.fromWire(msg));
+          return;
+        }
+
+        if (isSubAck(msg)) {
+          if (msg.node !== seqNode) {
+            seen.clear();
+            seqNode = msg.node;
+          }
+          for (const [channel, seq] of Object.entries(msg.seq)) {
+            if (msg.resync || !seen.has(channel)) seen.set(channel, seq);
+          }
+          acked.add(msg.sub);
+          if (msg.resync) {
+            for (const listener of resyncListeners) listener(msg.sub);
+          }
+          return;
+        }
 
-        // Handle profile message (first message after connect)
+        // Listeners stay registered; a later session may be allowed
+        if (isSubError(msg)) {
+          reportError({
+            source: "subscription",
+            pattern: msg.sub,
+            error: SeiroError.fromWire(msg),
+          });
+          return;
+        }
+
+        // The server refused our hello and is closing; retrying with
+        // the same version would fail again
+        if (isWelcomeError(msg)) {
+          closing = true;
+          reject(SeiroError.fromWire(msg));
+          socket.close();
+          return;
+        }
+
+        if (isWelcome(msg)) {
+          connection.value = {
+            id: msg.connectionId,
+            version: msg.welcome,
+            codec: msg.codec,
+            capabilities: msg.capabilities,
+          };
+          if (msg.heartbeat) beat(msg.heartbeat);
+          greeted((msg.profile ?? null) as P | null);
+          return;
+        }
+
+        // Servers from before the handshake send the profile on open
         if (
           !profileReceived &&
           typeof msg === "object" &&
           msg !== null &&
           "profile" in msg
         ) {
-          profileReceived = true;
-          connected.value = true;
-          resolve((msg as { profile: P | null }).profile);
+          greeted((msg as { profile: P | null }).profile);
           return;
         }
 
         if (isCmdResult(msg)) {
+          dequeue(msg.cid);
           const listener = cmdListeners.get(msg.cid);
           if (listener?.onSuccess) {
             listener.onSuccess(msg.result);
@@ -110,14 +500,35 @@ export function createClient<
         }
 
         if (isCmdError(msg)) {
+          // Refused by a server shutting down: the outbox sends it again
+          // on the next socket
+          if (
+            msg.code === ErrorCodes.UNAVAILABLE &&
+            pending.value.some((e) => e.cid === msg.cid)
+          ) {
+            sentOnSocket.delete(msg.cid);
+            return;
+          }
+          dequeue(msg.cid);
           const listener = cmdListeners.get(msg.cid);
           if (listener?.onError) {
-            listener.onError(msg.err);
+            listener.onError(msg.err, SeiroError.fromWire(msg));
           }
           cmdListeners.delete(msg.cid);
           return;
         }
 
+        if (isLiveDiff(msg)) {
+          liveQueries.get(msg.id)?.onDiff(msg);
+          return;
+        }
+
+        if (isRows(msg)) {
+          const listener = queryListeners.get(msg.id);
+          for (const row of msg.rows) listener?.onRow(row);
+          return;
+        }
+
         if (isRow(msg)) {
           queryListeners.get(msg.id)?.onRow(msg.row);
           return;
@@ -129,19 +540,16 @@ export function createClient<
           return;
         }
 
-        if (
-          typeof msg === "object" &&
-          msg !== null &&
-          "id" in msg &&
-          "err" in msg
-        ) {
-          const m = msg as { id: number; err: string };
-          queryListeners.get(m.id)?.onError(m.err);
-          queryListeners.delete(m.id);
+        if (isQueryError(msg)) {
+          const error = SeiroError.fromWire(msg);
+          queryListeners.get(msg.id)?.onError(error);
+          queryListeners.delete(msg.id);
+          liveQueries.get(msg.id)?.onError(error);
           return;
         }
 
         if (isEvent(msg)) {
+          if (msg.seq !== undefined) seen.set(msg.ev, msg.seq);
           for (const [pattern, listeners] of eventListeners) {
             if (matchPattern(pattern, msg.ev)) {
               for (const listener of listeners) {
@@ -152,16 +560,72 @@ export function createClient<
         }
       };
 
-      ws.onclose = () => {
+      const closed = () => {
+        if (pingTimer) clearInterval(pingTimer);
+        if (pongTimer) clearTimeout(pongTimer);
+        pingTimer = pongTimer = null;
+        // Ignore sockets already replaced by reconnect()
+        if (ws !== socket) return;
+        const wasOpen = profileReceived || status.value === "reconnecting";
         ws = null;
         connectPromise = null;
-        connected.value = false;
+        connection.value = null;
+        latency.value = null;
+        const error = new SeiroError(ErrorCodes.DISCONNECTED, "Disconnected");
+        if (!profileReceived) reject(error);
+        failPending(error);
+        if (backoff && wasOpen && !closing) {
+          // A server going away wasn't a failure; retry at once, which
+          // a load balancer sends to another instance
+          scheduleReconnect(goingAway ? 0 : undefined);
+        } else {
+          status.value = "closed";
+        }
       };
+
+      socket.onclose = closed;
     });
 
     return connectPromise as Promise<P | null>;
   }
 
+  // Fail everything waiting on a socket that has gone away
+  function failPending(error: SeiroError) {
+    // Commands in the outbox stay pending and are replayed on reconnect
+    const queued = new Set(pending.value.map((e) => e.cid));
+    for (const [id, listener] of cmdListeners) {
+      if (queued.has(id)) continue;
+      listener.onError?.(error.message, error);
+      cmdListeners.delete(id);
+    }
+    for (const listener of queryListeners.values()) {
+      listener.onError(error);
+    }
+    queryListeners.clear();
+    for (const waiter of sessionWaiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+
+  function scheduleReconnect(delay?: number) {
+    if (!backoff || attempts >= backoff.maxAttempts) {
+      status.value = "closed";
+      return;
+    }
+    status.value = "reconnecting";
+    const base = Math.min(
+      backoff.maxDelay,
+      backoff.initialDelay * backoff.factor ** attempts,
+    );
+    const wait = delay ?? base * (1 - Math.random() * backoff.jitter);
+    attempts++;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      // Failures close the socket, which schedules the next attempt
+      connect().catch(() => {});
+    }, wait);
+  }
+
   function matchPattern(pattern: string, eventName: string): boolean {
     if (pattern === eventName) return true;
     if (pattern.endsWith("*")) {
@@ -170,8 +634,35 @@ export function createClient<
     return false;
   }
 
+  // Messages waiting for the end of the tick when batching
+  let batched: object[] = [];
+
+  // A socket that isn't open would throw; what it misses is restored on
+  // the next open (subscriptions, live queries, the outbox) or failed
   function send(data: object) {
-    ws?.send(encode(data));
+    if (!options.batch) {
+      if (ws?.readyState === WebSocket.OPEN) ws.send(wire.encode(data));
+      return;
+    }
+    batched.push(data);
+    if (batched.length === 1) queueMicrotask(flushBatch);
+  }
+
+  function flushBatch() {
+    const messages = batched;
+    batched = [];
+    if (ws?.readyState !== WebSocket.OPEN) return;
+    ws.send(wire.encode(messages.length === 1 ? messages[0]! : messages));
+  }
+
+  // After the first ack, resubscribe from the last seq seen per channel
+  function subMessage(pattern: string): object {
+    if (!acked.has(pattern)) return { sub: pattern };
+    const since: Record<string, number> = {};
+    for (const [channel, seq] of seen) {
+      if (matchPattern(pattern, channel)) since[channel] = seq;
+    }
+    return { sub: pattern, since, ...(seqNode ? { node: seqNode } : {}) };
   }
 
   function cmd<K extends keyof C & string>(
@@ -179,9 +670,82 @@ export function createClient<
     data: CommandData<C, K>,
     callbacks?: {
       onSuccess?: (result: C[K]["result"]) => void;
-      onError?: (err: string) => void;
+      onError?: CmdErrorCallback;
     },
   ) {
+    sendCmd(name, data, callbacks);
+  }
+
+  // Promise form of cmd(): resolves with the result, rejects with a
+  // SeiroError on failure, timeout, abort or disconnect
+  function call<K extends keyof C & string>(
+    name: K,
+    data: CommandData<C, K>,
+    callOptions: CallOptions = {},
+  ): Promise<CommandResult<C, K>> {
+    const { signal } = callOptions;
+    const timeout = callOptions.timeout ?? commandTimeout;
+    if (signal?.aborted) {
+      return Promise.reject(
+        new SeiroError(ErrorCodes.ABORTED, "Command aborted"),
+      );
+    }
+    // Without an outbox there is nowhere to keep it until a socket opens
+    if (!outbox && status.value !== "open") {
+      return Promise.reject(
+        new SeiroError(ErrorCodes.DISCONNECTED, "Not connected"),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const settle = () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      // Give up locally: forget the listener and drop it from the outbox
+      const abandon = (error: SeiroError) => {
+        settle();
+        cmdListeners.delete(id);
+        dequeue(id);
+        reject(error);
+      };
+
+      const onAbort = () =>
+        abandon(new SeiroError(ErrorCodes.ABORTED, "Command aborted"));
+
+      const id = sendCmd(name, data, {
+        onSuccess: (result) => {
+          settle();
+          resolve(result as CommandResult<C, K>);
+        },
+        onError: (_err, error) => {
+          settle();
+          reject(error);
+        },
+      });
+
+      signal?.addEventListener("abort", onAbort);
+      if (timeout > 0) {
+        timer = setTimeout(
+          () =>
+            abandon(new SeiroError(ErrorCodes.TIMEOUT, "Command timed out")),
+          timeout,
+        );
+      }
+    });
+  }
+
+  function sendCmd(
+    name: string,
+    data: unknown,
+    callbacks?: {
+      onSuccess?: (result: never) => void;
+      onError?: CmdErrorCallback;
+    },
+  ): string {
     const id = cid();
     const ack = callbacks !== undefined;
     if (ack) {
@@ -190,38 +754,111 @@ export function createClient<
         onError: callbacks.onError,
       });
     }
-    send({ cmd: name, cid: id, data, ack });
+    const msg = { cmd: name, cid: id, data: data as object, ack };
+    if (outbox && (ack || status.value !== "open")) {
+      enqueue(msg);
+      flushOutbox();
+    } else if (status.value !== "open") {
+      // Nothing to send it on and nowhere to keep it
+      cmdListeners.delete(id);
+      const error = new SeiroError(ErrorCodes.DISCONNECTED, "Not connected");
+      callbacks?.onError?.(error.message, error);
+    } else {
+      send(msg);
+    }
+    return id;
+  }
+
+  function enqueue(msg: Cmd) {
+    lastSeq = Math.max(lastSeq + 1, Date.now());
+    const entry = { ...msg, seq: lastSeq };
+    pending.value = [...pending.value, entry];
+    outbox?.put(entry).catch(outboxFailed);
+  }
+
+  function dequeue(id: string) {
+    if (!pending.value.some((e) => e.cid === id)) return;
+    pending.value = pending.value.filter((e) => e.cid !== id);
+    outbox?.delete(id).catch(outboxFailed);
+  }
+
+  // Send queued commands in order, reusing their cid so the server can
+  // recognise retries; fire-and-forget commands leave once sent
+  async function flushOutbox() {
+    await outboxLoaded;
+    if (status.value !== "open") return;
+    for (const entry of pending.value) {
+      if (sentOnSocket.has(entry.cid)) continue;
+      sentOnSocket.add(entry.cid);
+      const { seq: _seq, ...msg } = entry;
+      send(msg);
+      if (!entry.ack) dequeue(entry.cid);
+    }
   }
 
   function query<K extends keyof Q & string>(
     name: K,
     params?: QueryParams<Q, K>,
+    options: QueryOptions = {},
   ): AsyncIterable<QueryRow<Q, K>> {
     const id = ++queryId;
+    const { signal } = options;
+    const window = Math.max(1, options.window ?? queryWindow);
 
     return {
       [Symbol.asyncIterator]() {
         const buffer: QueryRow<Q, K>[] = [];
+        // Rows taken since credit was last granted; granting in batches
+        // of half the window keeps the buffer at most `window` rows
+        let consumed = 0;
         let done = false;
-        let error: string | null = null;
+        let error: SeiroError | null = null;
         let resolve: (() => void) | null = null;
 
-        queryListeners.set(id, {
-          onRow: (row) => {
-            buffer.push(row as QueryRow<Q, K>);
-            resolve?.();
-          },
-          onEnd: () => {
-            done = true;
-            resolve?.();
-          },
-          onError: (e) => {
-            error = e;
-            resolve?.();
-          },
-        });
+        // Stop listening and tell the server to stop iterating
+        const cancel = () => {
+          if (done) return;
+          done = true;
+          queryListeners.delete(id);
+          signal?.removeEventListener("abort", onAbort);
+          send({ cancel: id });
+        };
+
+        const onAbort = () => {
+          if (done) return;
+          cancel();
+          error = new SeiroError(ErrorCodes.ABORTED, "Query aborted");
+          resolve?.();
+        };
 
-        send({ q: name, id, params });
+        if (signal?.aborted) {
+          done = true;
+          error = new SeiroError(ErrorCodes.ABORTED, "Query aborted");
+        } else if (status.value !== "open") {
+          // Like call(), it can't wait for a socket that may never open
+          done = true;
+          error = new SeiroError(ErrorCodes.DISCONNECTED, "Not connected");
+        } else {
+          signal?.addEventListener("abort", onAbort);
+          queryListeners.set(id, {
+            onRow: (row) => {
+              buffer.push(row as QueryRow<Q, K>);
+              resolve?.();
+            },
+            onEnd: () => {
+              done = true;
+              signal?.removeEventListener("abort", onAbort);
+              resolve?.();
+            },
+            onError: (e) => {
+              error = e;
+              signal?.removeEventListener("abort", onAbort);
+              resolve?.();
+            },
+          });
+
+          send({ q: name, id, params, credit: window, batch: true });
+        }
 
         return {
           async next(): Promise<IteratorResult<QueryRow<Q, K>>> {
@@ -231,9 +868,20 @@ export function createClient<
               });
             }
 
-            if (error) throw new Error(error);
-            if (buffer.length > 0)
+            if (error) throw error;
+            if (buffer.length > 0) {
+              if (!done && ++consumed >= Math.ceil(window / 2)) {
+                send({ id, credit: consumed });
+                consumed = 0;
+              }
               return { value: buffer.shift()!, done: false };
+            }
+            return { value: undefined as never, done: true };
+          },
+          // Called by `break`/`return` inside a for await loop
+          async return(): Promise<IteratorResult<QueryRow<Q, K>>> {
+            cancel();
+            buffer.length = 0;
             return { value: undefined as never, done: true };
           },
         };
@@ -244,14 +892,61 @@ export function createClient<
   async function queryAll<K extends keyof Q & string>(
     name: K,
     params?: QueryParams<Q, K>,
+    options: QueryOptions = {},
   ): Promise<QueryRow<Q, K>[]> {
     const results: QueryRow<Q, K>[] = [];
-    for await (const row of query(name, params)) {
+    for await (const row of query(name, params, options)) {
       results.push(row);
     }
     return results;
   }
 
+  // Run a live query: the server sends a snapshot, then row changes as
+  // its declared events fire. close() stops it.
+  function live<K extends keyof Q & string>(
+    name: K,
+    params?: QueryParams<Q, K>,
+  ): LiveQuery<QueryRow<Q, K>> {
+    const id = ++queryId;
+    const rows = signal(new Map<LiveKey, QueryRow<Q, K>>());
+    const ready = signal(false);
+    const error = signal<SeiroError | null>(null);
+
+    liveQueries.set(id, {
+      start: () => send({ live: name, id, params }),
+      onDiff: (diff) => {
+        const next = diff.reset ? new Map() : new Map(rows.value);
+        for (const [key, row] of diff.upsert ?? []) {
+          next.set(key, row as QueryRow<Q, K>);
+        }
+        for (const key of diff.delete ?? []) next.delete(key);
+        rows.value = next;
+        ready.value = true;
+      },
+      onError: (e) => {
+        liveQueries.delete(id);
+        error.value = e;
+      },
+    });
+    // peek: an effect creating live queries shouldn't re-run on status
+    if (status.peek() === "open") startLive(id);
+
+    return {
+      rows,
+      ready,
+      error,
+      close: () => {
+        if (liveQueries.delete(id)) send({ cancel: id });
+      },
+    };
+  }
+
+  function startLive(id: number) {
+    if (liveOnSocket.has(id)) return;
+    liveOnSocket.add(id);
+    liveQueries.get(id)?.start();
+  }
+
   // Subscribe and sync to a signal
   function sync<K extends keyof E & string>(
     pattern: K,
@@ -295,7 +990,7 @@ export function createClient<
 
     // Send sub if already subscribed (i.e., after auth)
     if (isNew && subscribed) {
-      send({ sub: pattern });
+      send(subMessage(pattern));
     }
 
     return () => {
@@ -304,6 +999,7 @@ export function createClient<
         listeners.delete(listener as Listener);
         if (listeners.size === 0) {
           eventListeners.delete(pattern);
+          acked.delete(pattern);
           if (subscribed) {
             send({ unsub: pattern });
           }
@@ -312,25 +1008,79 @@ export function createClient<
     };
   }
 
+  // Called when missed events for a pattern could not be replayed after
+  // a reconnect; re-query whatever state those events maintain
+  function onResync(listener: (pattern: string) => void) {
+    resyncListeners.add(listener);
+    return () => {
+      resyncListeners.delete(listener);
+    };
+  }
+
+  // Called with problems that don't belong to any one call
+  function onError(listener: (info: ClientErrorInfo) => void) {
+    errorListeners.add(listener);
+    return () => {
+      errorListeners.delete(listener);
+    };
+  }
+
   function subscribe() {
     if (subscribed) return;
     subscribed = true;
     for (const pattern of eventListeners.keys()) {
-      send({ sub: pattern });
+      send(subMessage(pattern));
     }
   }
 
-  function logout() {
+  // Send an auth or logout message and wait for the re-sent profile
+  function changeSession<P>(msg: object): Promise<P | null> {
+    return new Promise((resolve, reject) => {
+      sessionWaiters.push({
+        resolve: resolve as (profile: unknown) => void,
+        reject,
+      });
+      send(msg);
+    });
+  }
+
+  // Log in, switch user or refresh an expiring token without
+  // reconnecting; resolves with the new profile. Offline, the token is
+  // stored and used by the next connect().
+  function authenticate<P = unknown>(token: string): Promise<P | null> {
+    setToken(token);
+    if (status.value !== "open") return connect<P>();
+    return changeSession<P>({ auth: token });
+  }
+
+  async function logout(): Promise<void> {
     setToken(null);
+    if (status.value === "open") await changeSession({ logout: true });
+  }
+
+  function cancelReconnect() {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    attempts = 0;
   }
 
   function close() {
-    ws?.close();
+    closing = true;
+    cancelReconnect();
+    if (ws) {
+      ws.close();
+    } else {
+      status.value = "closed";
+    }
   }
 
   async function reconnect(): Promise<void> {
-    close();
+    cancelReconnect();
+    const old = ws;
+    ws = null;
     connectPromise = null;
+    old?.close();
+    failPending(new SeiroError(ErrorCodes.DISCONNECTED, "Disconnected"));
     await connect();
   }
 
@@ -338,15 +1088,24 @@ export function createClient<
     connect,
     reconnect,
     connected,
+    status: status as ReadonlySignal<ConnectionStatus>,
+    connection: connection as ReadonlySignal<ConnectionInfo | null>,
+    latency: latency as ReadonlySignal<number | null>,
+    pending: pending as ReadonlySignal<OutboxEntry[]>,
     cmd,
+    call,
     query,
     queryAll,
+    live,
     sync,
     syncMap,
     on,
+    onResync,
+    onError,
     subscribe,
     setToken,
     getToken,
+    authenticate,
     logout,
     close,
   };
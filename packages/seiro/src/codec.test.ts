@@ -0,0 +1,216 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import {
+  jsonCodec,
+  msgpackCodec,
+  codecProtocol,
+  encodeMsgpack,
+  decodeMsgpack,
+} from "./codec";
+import { createServer } from "./server";
+import { createClient } from "./client";
+import type { Command, Query } from "./types";
+import { sleep } from "./test-helpers";
+
+const roundTrip = (value: unknown) => decodeMsgpack(encodeMsgpack(value));
+
+const bytes = (value: unknown) => [...encodeMsgpack(value)];
+
+describe("msgpack", () => {
+  test("encodes to the spec's formats", () => {
+    expect(bytes(null)).toEqual([0xc0]);
+    expect(bytes(true)).toEqual([0xc3]);
+    expect(bytes(1)).toEqual([0x01]);
+    expect(bytes(-1)).toEqual([0xff]);
+    expect(bytes(200)).toEqual([0xcc, 200]);
+    expect(bytes(-200)).toEqual([0xd1, 0xff, 0x38]);
+    expect(bytes(1.5)).toEqual([0xcb, 0x3f, 0xf8, 0, 0, 0, 0, 0, 0]);
+    expect(bytes("a")).toEqual([0xa1, 0x61]);
+    expect(bytes({ a: [1] })).toEqual([0x81, 0xa1, 0x61, 0x91, 0x01]);
+    expect(bytes(new Uint8Array([1, 2]))).toEqual([0xc4, 2, 1, 2]);
+    expect(bytes(new Date(1000))).toEqual([0xd6, 0xff, 0, 0, 0, 1]);
+  });
+
+  test("round-trips numbers of every width", () => {
+    for (const n of [
+      0,
+      127,
+      128,
+      255,
+      256,
+      65535,
+      65536,
+      2 ** 32 - 1,
+      2 ** 32,
+      -32,
+      -33,
+      -128,
+      -129,
+      -32768,
+      -32769,
+      -(2 ** 31),
+      -(2 ** 31) - 1,
+      Number.MAX_SAFE_INTEGER,
+      0.1,
+      -1e300,
+      Infinity,
+    ]) {
+      expect(roundTrip(n)).toBe(n);
+    }
+    expect(roundTrip(NaN)).toBeNaN();
+  });
+
+  test("round-trips strings, arrays and maps of every length", () => {
+    for (const length of [0, 31, 32, 255, 256, 65535, 65536]) {
+      const s = "é".repeat(length);
+      expect(roundTrip(s)).toBe(s);
+      const items = Array.from({ length }, (_, i) => i);
+      expect(roundTrip(items)).toEqual(items);
+    }
+    const map = Object.fromEntries(
+      Array.from({ length: 70000 }, (_, i) => [`k${i}`, i]),
+    );
+    expect(roundTrip(map)).toEqual(map);
+  });
+
+  test("keeps types JSON loses", () => {
+    const value = {
+      at: new Date("2026-03-01T12:34:56.789Z"),
+      epoch: new Date(0),
+      old: new Date("1900-01-01T00:00:00.001Z"),
+      big: 2n ** 63n + 5n,
+      negative: -(2n ** 40n),
+      blob: new Uint8Array([0, 255, 7]),
+    };
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  test("drops undefined values in objects like JSON", () => {
+    expect(roundTrip({ a: 1, b: undefined, c: [undefined] })).toEqual({
+      a: 1,
+      c: [null],
+    });
+  });
+
+  test("keeps __proto__ keys as own properties", () => {
+    const decoded = roundTrip(JSON.parse('{"__proto__":{"admin":true}}'));
+    expect(Object.keys(decoded as object)).toEqual(["__proto__"]);
+    expect(({} as Record<string, unknown>).admin).toBeUndefined();
+  });
+
+  test("rejects truncated and invalid data", () => {
+    expect(() => decodeMsgpack(new Uint8Array([0xa3, 0x61]))).toThrow(
+      RangeError,
+    );
+    expect(() => decodeMsgpack(new Uint8Array([0xc1]))).toThrow(RangeError);
+  });
+});
+
+describe("codecs", () => {
+  test("JSON decodes text and binary frames", () => {
+    const frame = jsonCodec.encode({ a: 1 }) as string;
+    expect(jsonCodec.decode(frame)).toEqual({ a: 1 });
+    expect(jsonCodec.decode(new TextEncoder().encode(frame))).toEqual({
+      a: 1,
+    });
+  });
+
+  test("subprotocols", () => {
+    expect(codecProtocol(jsonCodec)).toBe("seiro.json");
+    expect(codecProtocol(msgpackCodec)).toBe("seiro.msgpack");
+  });
+});
+
+type TestCommands = {
+  "test.stamp": Command<{ at: Date }, { at: Date; isDate: boolean }>;
+};
+
+type TestQueries = {
+  "test.big": Query<void, { n: bigint }>;
+};
+
+type TestEvents = {
+  test_event: { at: Date };
+};
+
+const PORT = 3467;
+const WS_URL = `ws://localhost:${PORT}/ws`;
+
+describe("codec negotiation", () => {
+  const serverApi = createServer<TestCommands, TestQueries, TestEvents>({
+    port: PORT,
+  });
+
+  serverApi.command("test.stamp", async (data) => ({
+    at: data.at,
+    isDate: data.at instanceof Date,
+  }));
+
+  serverApi.query("test.big", async function* () {
+    yield { n: 2n ** 60n };
+  });
+
+  serverApi.onOpen(async (ctx) => {
+    ctx.send({ profile: null });
+  });
+
+  let server: Awaited<ReturnType<typeof serverApi.start>>;
+
+  beforeAll(async () => {
+    server = await serverApi.start();
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("the server selects the codec the client prefers", async () => {
+    const ws = new WebSocket(WS_URL, ["seiro.msgpack", "seiro"]);
+    ws.binaryType = "arraybuffer";
+    ws.onopen = () => ws.send(msgpackCodec.encode({ hello: 1 }));
+    const frame = await new Promise<unknown>((resolve) => {
+      ws.onmessage = (e) => resolve(e.data);
+    });
+
+    expect(ws.protocol).toBe("seiro.msgpack");
+    expect(msgpackCodec.decode(frame as ArrayBuffer)).toMatchObject({
+      welcome: 1,
+      codec: "msgpack",
+      profile: null,
+    });
+    ws.close();
+  });
+
+  test("unknown codecs fall back to JSON", async () => {
+    const ws = new WebSocket(WS_URL, ["seiro.cbor", "seiro"]);
+    const frame = await new Promise<unknown>((resolve) => {
+      ws.onmessage = (e) => resolve(e.data);
+    });
+
+    expect(ws.protocol).toBe("seiro");
+    expect(frame).toBe('{"profile":null}');
+    ws.close();
+  });
+
+  test("a MessagePack client keeps Dates and BigInts", async () => {
+    const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+      codec: msgpackCodec,
+    });
+    await client.connect();
+    const events: unknown[] = [];
+    client.on("test_event", (data) => events.push(data));
+    client.subscribe();
+    await sleep(50);
+
+    const at = new Date("2026-03-01T12:00:00.123Z");
+    expect(await client.call("test.stamp", { at })).toEqual({
+      at,
+      isDate: true,
+    });
+    expect(await client.queryAll("test.big")).toEqual([{ n: 2n ** 60n }]);
+
+    serverApi.emit("test_event", { at });
+    await sleep(50);
+    expect(events).toEqual([{ at }]);
+    client.close();
+  });
+});
@@ -0,0 +1,380 @@
+// Codecs turn protocol messages into WebSocket frames. A client asks for
+// one by offering its subprotocol; sockets that don't get JSON.
+// Selecting a codec subprotocol also tells the server the client starts
+// with a hello, while plain "seiro" clients are sent their profile.
+
+import { SUBPROTOCOL } from "./protocol";
+
+export type Frame = string | Uint8Array;
+
+export interface Codec {
+  // Negotiated as the `seiro.<name>` subprotocol
+  name: string;
+  encode(msg: unknown): Frame;
+  decode(frame: string | ArrayBuffer | Uint8Array): unknown;
+}
+
+export const jsonCodec: Codec = {
+  name: "json",
+  encode: (msg) => JSON.stringify(msg),
+  decode: (frame) =>
+    JSON.parse(typeof frame === "string" ? frame : textDecoder.decode(frame)),
+};
+
+// MessagePack keeps Dates (timestamp extension), BigInts (64-bit ints),
+// Uint8Arrays (bin) and numbers exact, in fewer bytes than JSON. As with
+// JSON, undefined object values are dropped.
+export const msgpackCodec: Codec = {
+  name: "msgpack",
+  encode: (msg) => encodeMsgpack(msg),
+  decode: (frame) =>
+    decodeMsgpack(
+      typeof frame === "string"
+        ? textEncoder.encode(frame)
+        : frame instanceof Uint8Array
+          ? frame
+          : new Uint8Array(frame),
+    ),
+};
+
+export function codecProtocol(codec: Codec): string {
+  return `${SUBPROTOCOL}.${codec.name}`;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// Extension type of the MessagePack timestamp
+const TIMESTAMP = -1;
+
+export function encodeMsgpack(value: unknown): Uint8Array {
+  let buf = new Uint8Array(256);
+  let view = new DataView(buf.buffer);
+  let pos = 0;
+
+  function ensure(n: number) {
+    if (pos + n <= buf.length) return;
+    let size = buf.length * 2;
+    while (size < pos + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(buf);
+    buf = next;
+    view = new DataView(buf.buffer);
+  }
+
+  function u8(b: number) {
+    ensure(1);
+    buf[pos++] = b;
+  }
+
+  function u16(n: number) {
+    ensure(2);
+    view.setUint16(pos, n);
+    pos += 2;
+  }
+
+  function u32(n: number) {
+    ensure(4);
+    view.setUint32(pos, n);
+    pos += 4;
+  }
+
+  function bytes(b: Uint8Array) {
+    ensure(b.length);
+    buf.set(b, pos);
+    pos += b.length;
+  }
+
+  // Length prefix: the fix form below `fixMax`, then the 8-bit form
+  // (for types that have one), 16-bit at `op16` and 32-bit after it
+  function header(
+    length: number,
+    fix: number,
+    fixMax: number,
+    op8: number | null,
+    op16: number,
+  ) {
+    if (length < fixMax) {
+      u8(fix | length);
+    } else if (op8 !== null && length <= 0xff) {
+      u8(op8);
+      u8(length);
+    } else if (length <= 0xffff) {
+      u8(op16);
+      u16(length);
+    } else {
+      u8(op16 + 1);
+      u32(length);
+    }
+  }
+
+  // A type byte followed by an unsigned value of `size` bytes
+  function sized(op: number, size: 1 | 2 | 4, n: number) {
+    u8(op);
+    if (size === 1) u8(n);
+    else if (size === 2) u16(n);
+    else u32(n);
+  }
+
+  // Small ints are one byte; others take the narrowest form that fits
+  function int(n: number) {
+    if (n >= 0 && n < 0x80) return u8(n);
+    if (n < 0 && n >= -32) return u8(n & 0xff);
+    if (n >= 0) {
+      if (n <= 0xff) return sized(0xcc, 1, n);
+      if (n <= 0xffff) return sized(0xcd, 2, n);
+      return sized(0xce, 4, n);
+    }
+    if (n >= -0x80) return sized(0xd0, 1, n & 0xff);
+    if (n >= -0x8000) return sized(0xd1, 2, n & 0xffff);
+    return sized(0xd2, 4, n >>> 0);
+  }
+
+  function float(n: number) {
+    ensure(9);
+    buf[pos++] = 0xcb;
+    view.setFloat64(pos, n);
+    pos += 8;
+  }
+
+  // 64-bit ints are reserved for BigInts, so they decode as BigInts
+  function bigint(n: bigint) {
+    ensure(9);
+    if (n >= 0n && n < 1n << 64n) {
+      buf[pos++] = 0xcf;
+      view.setBigUint64(pos, n);
+    } else if (n < 0n && n >= -(1n << 63n)) {
+      buf[pos++] = 0xd3;
+      view.setBigInt64(pos, n);
+    } else {
+      throw new RangeError(`BigInt out of 64-bit range: ${n}`);
+    }
+    pos += 8;
+  }
+
+  function str(s: string) {
+    const encoded = textEncoder.encode(s);
+    header(encoded.length, 0xa0, 32, 0xd9, 0xda);
+    bytes(encoded);
+  }
+
+  function bin(b: Uint8Array) {
+    header(b.length, 0, 0, 0xc4, 0xc5);
+    bytes(b);
+  }
+
+  function date(d: Date) {
+    const ms = d.getTime();
+    if (Number.isNaN(ms)) return u8(0xc0);
+    const sec = Math.floor(ms / 1000);
+    const nsec = (ms - sec * 1000) * 1e6;
+    if (sec >= 0 && sec < 2 ** 34) {
+      if (nsec === 0 && sec < 2 ** 32) {
+        u8(0xd6);
+        u8(TIMESTAMP & 0xff);
+        u32(sec);
+      } else {
+        // 30 bits of nanoseconds, then 34 bits of seconds
+        u8(0xd7);
+        u8(TIMESTAMP & 0xff);
+        u32(nsec * 4 + Math.floor(sec / 2 ** 32));
+        u32(sec % 2 ** 32);
+      }
+      return;
+    }
+    u8(0xc7);
+    u8(12);
+    u8(TIMESTAMP & 0xff);
+    u32(nsec);
+    ensure(8);
+    view.setBigInt64(pos, BigInt(sec));
+    pos += 8;
+  }
+
+  function write(v: unknown) {
+    if (v === null || v === undefined) return u8(0xc0);
+    if (v === false) return u8(0xc2);
+    if (v === true) return u8(0xc3);
+    if (typeof v === "number") {
+      // Safe integers wider than 32 bits go as doubles, which hold them
+      // exactly and decode as numbers
+      return Number.isInteger(v) && v >= -(2 ** 31) && v < 2 ** 32
+        ? int(v)
+        : float(v);
+    }
+    if (typeof v === "bigint") return bigint(v);
+    if (typeof v === "string") return str(v);
+    if (v instanceof Uint8Array) return bin(v);
+    if (v instanceof ArrayBuffer) return bin(new Uint8Array(v));
+    if (v instanceof Date) return date(v);
+    if (Array.isArray(v)) {
+      header(v.length, 0x90, 16, null, 0xdc);
+      for (const item of v) write(item);
+      return;
+    }
+    if (typeof v === "object") {
+      const entries = Object.entries(v).filter(([, x]) => x !== undefined);
+      header(entries.length, 0x80, 16, null, 0xde);
+      for (const [key, x] of entries) {
+        str(key);
+        write(x);
+      }
+      return;
+    }
+    // Functions and symbols, which JSON would drop
+    u8(0xc0);
+  }
+
+  write(value);
+  return buf.slice(0, pos);
+}
+
+export function decodeMsgpack(data: Uint8Array): unknown {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let pos = 0;
+
+  function take(n: number): number {
+    if (pos + n > data.length) {
+      throw new RangeError("Unexpected end of MessagePack data");
+    }
+    const at = pos;
+    pos += n;
+    return at;
+  }
+
+  const u8 = () => view.getUint8(take(1));
+  const u16 = () => view.getUint16(take(2));
+  const u32 = () => view.getUint32(take(4));
+
+  function str(length: number) {
+    const at = take(length);
+    return textDecoder.decode(data.subarray(at, at + length));
+  }
+
+  function bin(length: number) {
+    const at = take(length);
+    return data.slice(at, at + length);
+  }
+
+  function array(length: number) {
+    const items: unknown[] = [];
+    for (let i = 0; i < length; i++) items.push(read());
+    return items;
+  }
+
+  function map(length: number) {
+    const obj: Record<string, unknown> = {};
+    for (let i = 0; i < length; i++) {
+      const key = String(read());
+      const value = read();
+      // Keep "__proto__" an own property, as JSON.parse does
+      if (key === "__proto__") {
+        Object.defineProperty(obj, key, {
+          value,
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      } else {
+        obj[key] = value;
+      }
+    }
+    return obj;
+  }
+
+  function ext(length: number) {
+    const type = view.getInt8(take(1));
+    if (type !== TIMESTAMP) return bin(length);
+    let sec: number;
+    let nsec = 0;
+    if (length === 4) {
+      sec = u32();
+    } else if (length === 8) {
+      const hi = u32();
+      nsec = Math.floor(hi / 4);
+      sec = (hi % 4) * 2 ** 32 + u32();
+    } else if (length === 12) {
+      nsec = u32();
+      sec = Number(view.getBigInt64(take(8)));
+    } else {
+      throw new RangeError(`Invalid timestamp length: ${length}`);
+    }
+    return new Date(sec * 1000 + nsec / 1e6);
+  }
+
+  function read(): unknown {
+    const b = u8();
+    if (b < 0x80) return b;
+    if (b < 0x90) return map(b & 0x0f);
+    if (b < 0xa0) return array(b & 0x0f);
+    if (b < 0xc0) return str(b & 0x1f);
+    if (b >= 0xe0) return b - 0x100;
+    switch (b) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+        return bin(u8());
+      case 0xc5:
+        return bin(u16());
+      case 0xc6:
+        return bin(u32());
+      case 0xc7:
+        return ext(u8());
+      case 0xc8:
+        return ext(u16());
+      case 0xc9:
+        return ext(u32());
+      case 0xca:
+        return view.getFloat32(take(4));
+      case 0xcb:
+        return view.getFloat64(take(8));
+      case 0xcc:
+        return u8();
+      case 0xcd:
+        return u16();
+      case 0xce:
+        return u32();
+      case 0xcf:
+        return view.getBigUint64(take(8));
+      case 0xd0:
+        return view.getInt8(take(1));
+      case 0xd1:
+        return view.getInt16(take(2));
+      case 0xd2:
+        return view.getInt32(take(4));
+      case 0xd3:
+        return view.getBigInt64(take(8));
+      case 0xd4:
+        return ext(1);
+      case 0xd5:
+        return ext(2);
+      case 0xd6:
+        return ext(4);
+      case 0xd7:
+        return ext(8);
+      case 0xd8:
+        return ext(16);
+      case 0xd9:
+        return str(u8());
+      case 0xda:
+        return str(u16());
+      case 0xdb:
+        return str(u32());
+      case 0xdc:
+        return array(u16());
+      case 0xdd:
+        return array(u32());
+      case 0xde:
+        return map(u16());
+      case 0xdf:
+        return map(u32());
+    }
+    throw new RangeError(`Invalid MessagePack byte 0x${b.toString(16)}`);
+  }
+
+  return read();
+}
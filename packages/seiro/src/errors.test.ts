@@ -0,0 +1,66 @@
+import { describe, test, expect } from "bun:test";
+import { SeiroError, ErrorCodes, toWire } from "./errors";
+
+describe("errors", () => {
+  describe("SeiroError", () => {
+    test("is an Error with code and details", () => {
+      const error = new SeiroError("conflict", "Already exists", { id: 1 });
+      expect(error).toBeInstanceOf(Error);
+      expect(error.message).toBe("Already exists");
+      expect(error.code).toBe("conflict");
+      expect(error.details).toEqual({ id: 1 });
+    });
+
+    test("serializes to code, message and details", () => {
+      const error = new SeiroError("conflict", "Already exists");
+      expect(JSON.parse(JSON.stringify(error))).toEqual({
+        code: "conflict",
+        message: "Already exists",
+      });
+    });
+  });
+
+  describe("SeiroError.from", () => {
+    test("passes SeiroError through", () => {
+      const error = new SeiroError("conflict", "Already exists");
+      expect(SeiroError.from(error)).toBe(error);
+    });
+
+    test("wraps plain errors with the generic code", () => {
+      const error = SeiroError.from(new Error("boom"));
+      expect(error.code).toBe(ErrorCodes.ERROR);
+      expect(error.message).toBe("boom");
+    });
+
+    test("uses fallback message for non-errors", () => {
+      expect(SeiroError.from("boom", "command failed").message).toBe(
+        "command failed",
+      );
+    });
+  });
+
+  describe("wire format", () => {
+    test("keeps err as the plain message", () => {
+      const error = new SeiroError("not_authenticated", "Not authenticated");
+      expect(toWire(error)).toEqual({
+        err: "Not authenticated",
+        code: "not_authenticated",
+      });
+    });
+
+    test("round-trips through wire fields", () => {
+      const error = new SeiroError("validation_failed", "Validation failed", {
+        issues: [{ message: "Required" }],
+      });
+      const back = SeiroError.fromWire(toWire(error));
+      expect(back.toJSON()).toEqual(error.toJSON());
+    });
+
+    test("reads errors from older servers without code", () => {
+      const error = SeiroError.fromWire({ err: "Something went wrong" });
+      expect(error.code).toBe(ErrorCodes.ERROR);
+      expect(error.message).toBe("Something went wrong");
+      expect(error.details).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,66 @@
+// Structured errors shared by server and client
+
+import type { ErrorFields } from "./protocol";
+
+// Codes used by seiro itself; handlers may throw any string code
+export const ErrorCodes = {
+  ERROR: "error",
+  UNKNOWN_COMMAND: "unknown_command",
+  UNKNOWN_QUERY: "unknown_query",
+  NOT_AUTHENTICATED: "not_authenticated",
+  FORBIDDEN: "forbidden",
+  VALIDATION_FAILED: "validation_failed",
+  ABORTED: "aborted",
+  DISCONNECTED: "disconnected",
+  TIMEOUT: "timeout",
+  RATE_LIMITED: "rate_limited",
+  INCOMPATIBLE_VERSION: "incompatible_version",
+  UNAVAILABLE: "unavailable",
+} as const;
+
+export type ErrorInfo = {
+  code: string;
+  message: string;
+  details?: unknown;
+};
+
+export class SeiroError extends Error {
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = "SeiroError";
+    this.code = code;
+    if (details !== undefined) this.details = details;
+  }
+
+  toJSON(): ErrorInfo {
+    const info: ErrorInfo = { code: this.code, message: this.message };
+    if (this.details !== undefined) info.details = this.details;
+    return info;
+  }
+
+  // Normalise anything thrown by a handler into a SeiroError
+  static from(e: unknown, fallback = "request failed"): SeiroError {
+    if (e instanceof SeiroError) return e;
+    const message = e instanceof Error ? e.message : fallback;
+    return new SeiroError(ErrorCodes.ERROR, message);
+  }
+
+  // Rebuild from wire fields; older servers send only `err`
+  static fromWire(fields: ErrorFields): SeiroError {
+    return new SeiroError(
+      fields.code ?? ErrorCodes.ERROR,
+      fields.err,
+      fields.details,
+    );
+  }
+}
+
+// Wire fields for an error: `err` stays the plain message for older clients
+export function toWire(error: SeiroError): ErrorFields {
+  const fields: ErrorFields = { err: error.message, code: error.code };
+  if (error.details !== undefined) fields.details = error.details;
+  return fields;
+}
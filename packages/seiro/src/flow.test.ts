@@ -0,0 +1,112 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createServer } from "./server";
+import { createClient } from "./client";
+import type { Query } from "./types";
+import { until, settle, greeted } from "./test-helpers";
+
+type TestQueries = {
+  "test.count": Query<{ to: number }, { n: number }>;
+  "test.big": Query<{ count: number }, { n: number; text: string }>;
+};
+
+const PORT = 3465;
+const WS_URL = `ws://localhost:${PORT}/ws`;
+
+describe("query flow control", () => {
+  // Rows the server has pulled from the generator
+  let produced = 0;
+
+  const serverApi = createServer<{}, TestQueries>({
+    port: PORT,
+    // Anything buffered pauses the stream until the socket drains
+    maxBufferedBytes: 0,
+  });
+
+  serverApi.query("test.count", async function* (params) {
+    for (let n = 1; n <= params.to; n++) {
+      produced = n;
+      yield { n };
+    }
+  });
+
+  serverApi.query("test.big", async function* (params) {
+    const text = "x".repeat(64 * 1024);
+    for (let n = 1; n <= params.count; n++) yield { n, text };
+  });
+
+  serverApi.onOpen(async (ctx) => {
+    ctx.send({ profile: null });
+  });
+
+  let server: Awaited<ReturnType<typeof serverApi.start>>;
+
+  beforeAll(async () => {
+    server = await serverApi.start();
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("the server stops at the granted credit until more is sent", async () => {
+    const { ws, messages } = await greeted(WS_URL);
+    produced = 0;
+    ws.send(
+      JSON.stringify({ q: "test.count", id: 1, params: { to: 10 }, credit: 3 }),
+    );
+    await settle();
+
+    expect(messages.map((m) => m.row)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+    expect(produced).toBe(4);
+
+    ws.send(JSON.stringify({ id: 1, credit: 100 }));
+    await until(() => messages.length === 11);
+
+    expect(messages[10]).toEqual({ id: 1 });
+    ws.close();
+  });
+
+  test("queries without credit stream every row", async () => {
+    const { ws, messages } = await greeted(WS_URL);
+    ws.send(JSON.stringify({ q: "test.count", id: 1, params: { to: 5 } }));
+    await until(() => messages.length === 6);
+
+    expect(messages.at(-1)).toEqual({ id: 1 });
+    ws.close();
+  });
+
+  test("the client buffers at most its window", async () => {
+    const client = createClient<{}, TestQueries>(WS_URL);
+    await client.connect();
+    produced = 0;
+
+    const rows: number[] = [];
+    let ahead = 0;
+    for await (const row of client.query(
+      "test.count",
+      { to: 50 },
+      { window: 4 },
+    )) {
+      rows.push(row.n);
+      await settle();
+      ahead = Math.max(ahead, produced - row.n);
+    }
+
+    expect(rows).toEqual(Array.from({ length: 50 }, (_, i) => i + 1));
+    // The window, plus the row the server holds while waiting
+    expect(ahead).toBeLessThanOrEqual(5);
+    client.close();
+  });
+
+  test("a backed-up socket resumes when it drains", async () => {
+    const client = createClient<{}, TestQueries>(WS_URL);
+    await client.connect();
+
+    const rows = await client.queryAll("test.big", { count: 40 });
+
+    expect(rows.map((row) => row.n)).toEqual(
+      Array.from({ length: 40 }, (_, i) => i + 1),
+    );
+    client.close();
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createServer } from "./server";
+import { createClient } from "./client";
+import { SeiroError } from "./errors";
+import type { Command } from "./types";
+import { settle, raw } from "./test-helpers";
+
+type TestCommands = {
+  "test.echo": Command<{ value: number }, { value: number }>;
+};
+
+const PORT = 3468;
+const WS_URL = `ws://localhost:${PORT}/ws`;
+const SILENT_PORT = 3469;
+
+describe("handshake", () => {
+  const serverApi = createServer<TestCommands>({ port: PORT });
+
+  serverApi.command("test.echo", async (data) => data);
+
+  serverApi.onOpen(async (ctx) => {
+    ctx.send({ profile: { name: "guest" } });
+  });
+
+  let server: Awaited<ReturnType<typeof serverApi.start>>;
+
+  beforeAll(async () => {
+    server = await serverApi.start();
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("hello is answered with a welcome carrying the profile", async () => {
+    const { ws, messages, opened } = raw(WS_URL, ["seiro.json", "seiro"]);
+    await opened;
+    expect(ws.protocol).toBe("seiro.json");
+    await settle();
+    // Nothing is sent until the client says hello
+    expect(messages).toEqual([]);
+
+    ws.send(JSON.stringify({ hello: 1 }));
+    await settle();
+
+    expect(messages).toEqual([
+      {
+        welcome: 1,
+        connectionId: expect.any(String),
+        codec: "json",
+        capabilities: ["auth", "batch", "credit", "live", "heartbeat"],
+        heartbeat: 30_000,
+        profile: { name: "guest" },
+      },
+    ]);
+    ws.close();
+  });
+
+  test("an unsupported version is refused and the socket closed", async () => {
+    const { ws, messages, opened, closed } = raw(WS_URL, ["seiro.json"]);
+    await opened;
+    ws.send(JSON.stringify({ hello: 99 }));
+    const event = await closed;
+
+    expect(messages).toEqual([
+      {
+        welcome: 1,
+        err: "Protocol version 99 is not supported",
+        code: "incompatible_version",
+        details: { supported: [1] },
+      },
+    ]);
+    expect(event.code).toBe(1002);
+  });
+
+  test("legacy clients are sent the profile on open", async () => {
+    const { ws, messages, opened } = raw(WS_URL, ["seiro"]);
+    await opened;
+    await settle();
+
+    expect(messages).toEqual([{ profile: { name: "guest" } }]);
+    ws.close();
+  });
+
+  test("the client reports the connection", async () => {
+    const client = createClient<TestCommands>(WS_URL);
+
+    expect(await client.connect<{ name: string }>()).toEqual({
+      name: "guest",
+    });
+    expect(client.connection.value).toEqual({
+      id: expect.any(String),
+      version: 1,
+      codec: "json",
+      capabilities: ["auth", "batch", "credit", "live", "heartbeat"],
+    });
+    expect(await client.call("test.echo", { value: 1 })).toEqual({
+      value: 1,
+    });
+
+    client.close();
+    await settle();
+    expect(client.connection.value).toBeNull();
+  });
+});
+
+describe("handshake without onOpen", () => {
+  const serverApi = createServer<TestCommands>({
+    port: SILENT_PORT,
+    retention: true,
+  });
+
+  serverApi.command("test.echo", async (data) => data);
+
+  let server: Awaited<ReturnType<typeof serverApi.start>>;
+
+  beforeAll(async () => {
+    server = await serverApi.start();
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("connect resolves with a null profile", async () => {
+    const client = createClient<TestCommands>(
+      `ws://localhost:${SILENT_PORT}/ws`,
+    );
+
+    expect(await client.connect()).toBeNull();
+    expect(client.connection.value?.capabilities).toContain("replay");
+    expect(await client.call("test.echo", { value: 2 })).toEqual({
+      value: 2,
+    });
+    client.close();
+  });
+});
+
+describe("incompatible servers", () => {
+  const port = SILENT_PORT + 1;
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    // Stands in for a server speaking a newer protocol
+    server = Bun.serve({
+      port,
+      fetch(req, server) {
+        server.upgrade(req, {
+          headers: { "Sec-WebSocket-Protocol": "seiro.json" },
+          data: undefined,
+        });
+        return undefined;
+      },
+      websocket: {
+        message(ws) {
+          ws.send(
+            JSON.stringify({
+              welcome: 2,
+              err: "Protocol version 1 is not supported",
+              code: "incompatible_version",
+              details: { supported: [2] },
+            }),
+          );
+          ws.close(1002);
+        },
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("connect rejects with the server's error", async () => {
+    const client = createClient(`ws://localhost:${port}/ws`, {
+      reconnect: { initialDelay: 10 },
+    });
+
+    const error = (await client.connect().catch((e) => e)) as SeiroError;
+
+    expect(error).toBeInstanceOf(SeiroError);
+    expect(error.code).toBe("incompatible_version");
+    expect(error.details).toEqual({ supported: [2] });
+    await settle();
+    // Not retried: the same hello would be refused again
+    expect(client.status.value).toBe("closed");
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createServer } from "./server";
+import { createClient, type ClientErrorInfo } from "./client";
+import { until, sleep, raw } from "./test-helpers";
+
+const PORT = 3471;
+const WS_URL = `ws://localhost:${PORT}/ws`;
+
+describe("heartbeat", () => {
+  const serverApi = createServer({
+    port: PORT,
+    heartbeat: { interval: 50, timeout: 50 },
+  });
+
+  let server: Awaited<ReturnType<typeof serverApi.start>>;
+
+  beforeAll(async () => {
+    server = await serverApi.start();
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("the welcome asks for pings and pings are answered", async () => {
+    const { ws, messages, opened } = raw(WS_URL, ["seiro.json"]);
+    await opened;
+    ws.send(JSON.stringify({ hello: 1 }));
+    ws.send(JSON.stringify({ ping: 123 }));
+    await until(() => messages.length === 2);
+
+    expect(messages[0]).toMatchObject({ heartbeat: 50 });
+    expect(messages[0]!.capabilities).toContain("heartbeat");
+    expect(messages[1]).toEqual({ pong: 123 });
+    ws.close();
+  });
+
+  test("a connection that stops pinging is dropped", async () => {
+    const { ws, opened, closed } = raw(WS_URL, ["seiro.json"]);
+    await opened;
+    ws.send(JSON.stringify({ hello: 1 }));
+    const started = Date.now();
+    const event = await closed;
+
+    expect(event.code).toBe(1006);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(100);
+  });
+
+  test("legacy connections are not dropped", async () => {
+    const { ws, opened, closed } = raw(WS_URL, ["seiro"]);
+    await opened;
+    const result = await Promise.race([closed, sleep(300)]);
+
+    expect(result).toBeUndefined();
+    ws.close();
+  });
+
+  test("the client pings and reports latency", async () => {
+    const client = createClient(WS_URL);
+    await client.connect();
+    expect(client.latency.value).toBeNull();
+
+    await until(() => client.latency.value !== null);
+    expect(client.latency.value).toBeGreaterThanOrEqual(0);
+
+    // Pinging keeps the connection past the server's idle limit
+    await sleep(300);
+    expect(client.status.value).toBe("open");
+
+    client.close();
+    await until(() => client.status.value === "closed");
+    expect(client.latency.value).toBeNull();
+  });
+});
+
+describe("unresponsive servers", () => {
+  const port = PORT + 1;
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    // Welcomes the client, then never answers: a half-open socket
+    server = Bun.serve({
+      port,
+      fetch(req, server) {
+        server.upgrade(req, {
+          headers: { "Sec-WebSocket-Protocol": "seiro.json" },
+          data: undefined,
+        });
+        return undefined;
+      },
+      websocket: {
+        message(ws, message) {
+          if (!String(message).includes("hello")) return;
+          ws.send(
+            JSON.stringify({
+              welcome: 1,
+              connectionId: "c1",
+              codec: "json",
+              capabilities: ["heartbeat"],
+              heartbeat: 20,
+            }),
+          );
+        },
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("the client drops the socket when pings go unanswered", async () => {
+    const client = createClient(`ws://localhost:${port}/ws`, {
+      heartbeat: { timeout: 30 },
+    });
+    const errors: ClientErrorInfo[] = [];
+    client.onError((info) => errors.push(info));
+    await client.connect();
+    expect(client.connected.value).toBe(true);
+
+    await until(() => client.status.value === "closed");
+    expect(client.connected.value).toBe(false);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]!.source).toBe("heartbeat");
+    expect(errors[0]!.error.code).toBe("timeout");
+  });
+
+  test("disabled heartbeats never ping", async () => {
+    const client = createClient(`ws://localhost:${port}/ws`, {
+      heartbeat: false,
+    });
+    await client.connect();
+    await sleep(150);
+
+    expect(client.status.value).toBe("open");
+    client.close();
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { Database } from "bun:sqlite";
+import { createServer } from "./server";
+import {
+  createMemoryIdempotencyStore,
+  createSqliteIdempotencyStore,
+  type IdempotencyStore,
+} from "./idempotency";
+import type { Command } from "./types";
+
+const stores: [string, () => IdempotencyStore][] = [
+  ["memory", createMemoryIdempotencyStore],
+  ["sqlite", () => createSqliteIdempotencyStore(new Database(":memory:"))],
+];
+
+for (const [name, create] of stores) {
+  describe(`${name} idempotency store`, () => {
+    test("returns stored responses", async () => {
+      const store = create();
+      await store.set("1:a:x", { cid: "x", result: { id: 1 } }, 1000);
+      expect(await store.get("1:a:x")).toEqual({ cid: "x", result: { id: 1 } });
+    });
+
+    test("keeps BigInt, Date and binary results", async () => {
+      const store = create();
+      const result = {
+        total: 2n ** 60n,
+        at: new Date(1_700_000_000_000),
+        bytes: new Uint8Array([1, 2, 3]),
+      };
+      await store.set("1:a:x", { cid: "x", result }, 1000);
+      expect(await store.get("1:a:x")).toEqual({ cid: "x", result });
+    });
+
+    test("returns undefined for unknown keys", async () => {
+      expect(await create().get("missing")).toBeUndefined();
+    });
+
+    test("expires entries after the ttl", async () => {
+      const store = create();
+      await store.set("1:a:x", { cid: "x", err: "failed" }, 10);
+      await new Promise((r) => setTimeout(r, 20));
+      expect(await store.get("1:a:x")).toBeUndefined();
+    });
+  });
+}
+
+type TestCommands = {
+  "test.count": Command<{ fail?: boolean }, { runs: number }>;
+};
+
+const PORT = 3458;
+
+describe("server idempotency", () => {
+  const serverApi = createServer<TestCommands>({
+    port: PORT,
+    idempotency: true,
+  });
+  let runs = 0;
+  serverApi.command("test.count", async (data) => {
+    runs++;
+    await new Promise((r) => setTimeout(r, 20));
+    if (data.fail) throw new Error("Count failed");
+    return { runs };
+  });
+
+  let server: Awaited<ReturnType<typeof serverApi.start>>;
+  let ws: WebSocket;
+  const replies: unknown[] = [];
+
+  function reply(count: number): Promise<unknown[]> {
+    return new Promise((resolve) => {
+      const poll = () =>
+        replies.length >= count ? resolve(replies) : setTimeout(poll, 5);
+      poll();
+    });
+  }
+
+  beforeAll(async () => {
+    server = await serverApi.start();
+    ws = new WebSocket(`ws://localhost:${PORT}/ws`);
+    ws.onmessage = (e) => replies.push(JSON.parse(e.data as string));
+    await new Promise((r) => (ws.onopen = r));
+  });
+
+  afterAll(() => {
+    ws.close();
+    server.stop(true);
+  });
+
+  test("replays the result for a repeated cid", async () => {
+    runs = 0;
+    replies.length = 0;
+    const msg = JSON.stringify({ cmd: "test.count", cid: "c1", data: {}, ack: true });
+    ws.send(msg);
+    await reply(1);
+    ws.send(msg);
+    await reply(2);
+
+    expect(runs).toBe(1);
+    expect(replies).toEqual([
+      { cid: "c1", result: { runs: 1 } },
+      { cid: "c1", result: { runs: 1 } },
+    ]);
+  });
+
+  test("concurrent retries wait for the first execution", async () => {
+    runs = 0;
+    replies.length = 0;
+    const msg = JSON.stringify({ cmd: "test.count", cid: "c2", data: {}, ack: true });
+    ws.send(msg);
+    ws.send(msg);
+    await reply(2);
+
+    expect(runs).toBe(1);
+    expect(replies[0]).toEqual(replies[1]);
+  });
+
+  test("replays errors too", async () => {
+    runs = 0;
+    replies.length = 0;
+    const msg = JSON.stringify({
+      cmd: "test.count",
+      cid: "c3",
+      data: { fail: true },
+      ack: true,
+    });
+    ws.send(msg);
+    await reply(1);
+    ws.send(msg);
+    await reply(2);
+
+    expect(runs).toBe(1);
+    expect(replies[1]).toEqual({ cid: "c3", err: "Count failed", code: "error" });
+  });
+
+  test("different cids run separately", async () => {
+    runs = 0;
+    replies.length = 0;
+    ws.send(JSON.stringify({ cmd: "test.count", cid: "c4", data: {}, ack: true }));
+    await reply(1);
+    ws.send(JSON.stringify({ cmd: "test.count", cid: "c5", data: {}, ack: true }));
+    await reply(2);
+
+    expect(runs).toBe(2);
+  });
+
+  test("anonymous retries on a new socket replay the response", async () => {
+    runs = 0;
+    replies.length = 0;
+    const msg = JSON.stringify({ cmd: "test.count", cid: "c6", data: {}, ack: true });
+    ws.send(msg);
+    await reply(1);
+
+    const other = new WebSocket(`ws://localhost:${PORT}/ws`);
+    const answer = new Promise<MessageEvent>(
+      (resolve) => (other.onmessage = resolve),
+    );
+    await new Promise((r) => (other.onopen = r));
+    other.send(msg);
+    const replayed = JSON.parse((await answer).data as string);
+
+    expect(runs).toBe(1);
+    expect(replayed).toEqual(replies[0]);
+    other.close();
+  });
+});
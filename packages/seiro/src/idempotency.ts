@@ -0,0 +1,140 @@
+// Idempotency stores: remember command responses by (user, command, cid)
+// so a retried command replays its answer instead of running again
+
+import type { Database } from "bun:sqlite";
+import type { CmdResult, CmdError } from "./protocol";
+import { encodeMsgpack, decodeMsgpack } from "./codec";
+
+export type StoredResponse = CmdResult | CmdError;
+
+export interface IdempotencyStore {
+  get(key: string): Promise<StoredResponse | undefined>;
+  // ttl in milliseconds
+  set(key: string, response: StoredResponse, ttl: number): Promise<void>;
+}
+
+export type IdempotencyConfig = {
+  store?: IdempotencyStore;
+  ttl?: number;
+};
+
+// Stored as base64 MessagePack: results may hold BigInt, Date or binary
+// values that JSON would fail on or turn into strings
+function serialize(response: StoredResponse): string {
+  return Buffer.from(encodeMsgpack(response)).toString("base64");
+}
+
+function deserialize(text: string): StoredResponse {
+  return decodeMsgpack(Buffer.from(text, "base64")) as StoredResponse;
+}
+
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  const entries = new Map<
+    string,
+    { response: StoredResponse; expires: number }
+  >();
+
+  // Entries are inserted in expiry order, so stop at the first live one
+  function prune(now: number) {
+    for (const [key, entry] of entries) {
+      if (entry.expires > now) break;
+      entries.delete(key);
+    }
+  }
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expires <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.response;
+    },
+    async set(key, response, ttl) {
+      const now = Date.now();
+      prune(now);
+      entries.delete(key);
+      entries.set(key, { response, expires: now + ttl });
+    },
+  };
+}
+
+export function createSqliteIdempotencyStore(
+  db: Database,
+  table = "seiro_idempotency",
+): IdempotencyStore {
+  db.run(
+    `CREATE TABLE IF NOT EXISTS ${table} (
+      key TEXT PRIMARY KEY,
+      response TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    )`,
+  );
+  const select = db.query<{ response: string }, [string, number]>(
+    `SELECT response FROM ${table} WHERE key = ? AND expires_at > ?`,
+  );
+  const upsert = db.query(
+    `INSERT OR REPLACE INTO ${table} (key, response, expires_at) VALUES (?, ?, ?)`,
+  );
+  const prune = db.query(`DELETE FROM ${table} WHERE expires_at <= ?`);
+
+  return {
+    async get(key) {
+      const row = select.get(key, Date.now());
+      return row ? deserialize(row.response) : undefined;
+    },
+    async set(key, response, ttl) {
+      const now = Date.now();
+      prune.run(now);
+      upsert.run(key, serialize(response), now + ttl);
+    },
+  };
+}
+
+// Structural type satisfied by the `postgres` package's Sql instance
+export type PostgresClient = {
+  unsafe: (
+    query: string,
+    params?: (string | number)[],
+  ) => PromiseLike<readonly unknown[]>;
+};
+
+export function createPostgresIdempotencyStore(
+  sql: PostgresClient,
+  table = "seiro_idempotency",
+): IdempotencyStore {
+  let ready: PromiseLike<unknown> | null = null;
+  // Create the table on first use
+  const init = () =>
+    (ready ??= sql.unsafe(
+      `CREATE TABLE IF NOT EXISTS ${table} (
+        key text PRIMARY KEY,
+        response text NOT NULL,
+        expires_at timestamptz NOT NULL
+      )`,
+    ));
+
+  return {
+    async get(key) {
+      await init();
+      const rows = (await sql.unsafe(
+        `SELECT response FROM ${table} WHERE key = $1 AND expires_at > now()`,
+        [key],
+      )) as { response: string }[];
+      return rows[0] ? deserialize(rows[0].response) : undefined;
+    },
+    async set(key, response, ttl) {
+      await init();
+      await sql.unsafe(`DELETE FROM ${table} WHERE expires_at <= now()`);
+      await sql.unsafe(
+        `INSERT INTO ${table} (key, response, expires_at)
+         VALUES ($1, $2, now() + $3 * interval '1 millisecond')
+         ON CONFLICT (key) DO UPDATE
+           SET response = EXCLUDED.response, expires_at = EXCLUDED.expires_at`,
+        [key, serialize(response), ttl],
+      );
+    },
+  };
+}
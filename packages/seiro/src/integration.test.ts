@@ -1,7 +1,9 @@
 import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import { createServer } from "./server";
-import { createClient } from "./client";
+import { createClient, type ClientErrorInfo } from "./client";
 import type { Command, Query } from "./types";
+import type { StandardSchemaV1 } from "./schema";
+import { SeiroError } from "./errors";
 
 // Test type definitions
 type TestCommands = {
@@ -10,17 +12,43 @@ type TestCommands = {
   "test.error": Command<{ shouldFail: boolean }, void>;
   "test.setUser": Command<{ userId: number }, { userId: number }>;
   "public.ping": Command<void, { pong: boolean }>;
+  "test.validated": Command<{ count: number }, { count: number }>;
+  "test.state": Command<{ block?: boolean }, { tag: unknown }>;
+  "test.conflict": Command<{ email: string }, void>;
+  "test.slow": Command<{ ms: number }, { waited: number }>;
+  "admin.reset": Command<void, { roles: string[] }>;
+  "test.owned": Command<{ ownerId: number }, void>;
+  "test.connection": Command<void, { connectionId: string }>;
+  "test.join": Command<{ room: string; leave?: boolean }, void>;
 };
 
 type TestQueries = {
   "test.numbers": Query<{ count: number }, { n: number }>;
   "test.empty": Query<void, { item: string }>;
   "test.error": Query<void, { item: string }>;
+  "test.validated": Query<{ count: number }, { n: number }>;
+  "test.infinite": Query<void, { n: number }>;
 };
 
 type TestEvents = {
   test_event: { value: number };
   "test.namespaced": { data: string };
+  "admin.audit": { action: string };
+};
+
+// Minimal Standard Schema: { count: number } with numeric strings coerced
+const countSchema: StandardSchemaV1<unknown, { count: number }> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const count = Number((value as { count?: unknown } | null)?.count);
+      if (!Number.isInteger(count)) {
+        return { issues: [{ message: "Expected integer", path: ["count"] }] };
+      }
+      return { value: { count } };
+    },
+  },
 };
 
 const PORT = 3456;
@@ -29,6 +57,8 @@ const WS_URL = `ws://localhost:${PORT}/ws`;
 describe("seiro integration", () => {
   let server: Awaited<ReturnType<ReturnType<typeof createServer>["start"]>>;
   let serverApi: ReturnType<typeof createServer<TestCommands, TestQueries, TestEvents>>;
+  const dispatched: string[] = [];
+  let infiniteStopped = false;
 
   beforeAll(async () => {
     serverApi = createServer<TestCommands, TestQueries, TestEvents>({
@@ -37,12 +67,77 @@ describe("seiro integration", () => {
         verify: async (token) => {
           if (token === "valid-token") return 42;
           if (token === "user-123") return 123;
+          if (token === "flaky-token") return 99;
+          if (token === "admin-token") return { id: 7, roles: ["admin"] };
           return null;
         },
         public: ["public.ping"],
+        canSubscribe: (principal, pattern) => {
+          if (principal?.id === 99) throw new Error("Lookup failed");
+          return (
+            !pattern.startsWith("admin.") ||
+            (principal?.roles?.includes("admin") ?? false)
+          );
+        },
       },
     });
 
+    // Middleware - records every dispatch, tags state, blocks on request
+    serverApi.use(async (ctx, next) => {
+      dispatched.push(`${ctx.type}:${ctx.name}`);
+      await next();
+    });
+    serverApi.use(async (ctx, next) => {
+      if (ctx.name === "test.state") {
+        if ((ctx.payload as { block?: boolean }).block) {
+          throw new Error("Blocked by middleware");
+        }
+        ctx.state.tag = "from-middleware";
+      }
+      await next();
+    });
+
+    // State command - returns what middleware put on the context
+    serverApi.command("test.state", async (_data, ctx) => {
+      return { tag: ctx.state.tag };
+    });
+
+    // Conflict command - throws a structured error
+    serverApi.command("test.conflict", async (data) => {
+      throw new SeiroError("conflict", "Email already registered", {
+        fields: { email: data.email },
+      });
+    });
+
+    // Admin command - requires the admin role
+    serverApi.command(
+      "admin.reset",
+      async (_data, ctx) => ({ roles: ctx.principal?.roles ?? [] }),
+      { roles: ["admin"] },
+    );
+
+    // Owned command - only the owner may run it
+    serverApi.command("test.owned", async () => {}, {
+      authorize: (principal, data) => principal.id === data.ownerId,
+    });
+
+    // Connection command - reports the socket's connection id
+    serverApi.command("test.connection", async (_data, ctx) => ({
+      connectionId: ctx.connectionId,
+    }));
+
+    // Join command - adds or removes the socket from a room
+    serverApi.command("test.join", async (data, ctx) => {
+      if (data.leave) ctx.leave(data.room);
+      else ctx.join(data.room);
+    });
+
+    // Slow command - resolves after a delay
+    serverApi.command("test.slow", async (data) => {
+      await new Promise((r) => setTimeout(r, data.ms));
+      return { waited: data.ms };
+    });
+
     // Echo command - returns the message
     serverApi.command("test.echo", async (data) => {
       return { echoed: data.message };
@@ -71,6 +166,11 @@ describe("seiro integration", () => {
       return { pong: true };
     });
 
+    // Validated command - data is checked and coerced before the handler
+    serverApi.command("test.validated", async (data) => data, {
+      schema: countSchema,
+    });
+
     // Send profile on connect (required for client.connect() to resolve)
     serverApi.onOpen(async (ctx) => {
       ctx.send({ profile: ctx.userId ? { id: ctx.userId } : null });
@@ -93,6 +193,31 @@ describe("seiro integration", () => {
       throw new Error("Query failed");
     });
 
+    // Validated query - params are checked before the generator runs
+    serverApi.query(
+      "test.validated",
+      async function* (params) {
+        for (let i = 1; i <= params.count; i++) {
+          yield { n: i };
+        }
+      },
+      { schema: countSchema },
+    );
+
+    // Infinite query - streams until cancelled
+    serverApi.query("test.infinite", async function* (_params, ctx) {
+      infiniteStopped = false;
+      let n = 0;
+      try {
+        while (!ctx.signal.aborted) {
+          yield { n: ++n };
+          await new Promise((r) => setTimeout(r, 5));
+        }
+      } finally {
+        infiniteStopped = true;
+      }
+    });
+
     server = await serverApi.start();
   });
 
@@ -175,6 +300,81 @@ describe("seiro integration", () => {
     });
   });
 
+  describe("promise commands", () => {
+    test("call resolves with the result", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const result = await client.call("test.echo", { message: "called" });
+
+      expect(result).toEqual({ echoed: "called" });
+      client.close();
+    });
+
+    test("call rejects with the server error", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const error = await client
+        .call("test.conflict", { email: "a@b.c" })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(SeiroError);
+      expect(error.code).toBe("conflict");
+      client.close();
+    });
+
+    test("call rejects on timeout", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const error = await client
+        .call("test.slow", { ms: 200 }, { timeout: 20 })
+        .catch((e) => e);
+
+      expect(error.code).toBe("timeout");
+      client.close();
+    });
+
+    test("call rejects when aborted", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const controller = new AbortController();
+      const pending = client.call("test.slow", { ms: 200 }, {
+        signal: controller.signal,
+      });
+      controller.abort();
+      const error = await pending.catch((e) => e);
+
+      expect(error.code).toBe("aborted");
+      client.close();
+    });
+
+    test("sequential calls read naturally", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const first = await client.call("test.slow", { ms: 1 });
+      const second = await client.call("test.echo", {
+        message: String(first.waited),
+      });
+
+      expect(second).toEqual({ echoed: "1" });
+      client.close();
+    });
+  });
+
   describe("commands without ack (fire-and-forget)", () => {
     test("command without callbacks does not hang", async () => {
       const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
@@ -266,6 +466,95 @@ describe("seiro integration", () => {
       expect(error?.message).toBe("Query failed");
       client.close();
     });
+
+    test("query rejects at once when not connected", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+
+      const error = (await client
+        .queryAll("test.numbers", { count: 1 })
+        .catch((e) => e)) as SeiroError;
+
+      expect(error.code).toBe("disconnected");
+    });
+  });
+
+  describe("query cancellation", () => {
+    test("breaking out of the loop stops the server generator", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const rows: number[] = [];
+      for await (const row of client.query("test.infinite")) {
+        rows.push(row.n);
+        if (rows.length === 3) break;
+      }
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(rows).toEqual([1, 2, 3]);
+      expect(infiniteStopped).toBe(true);
+      client.close();
+    });
+
+    test("abort signal rejects the iterator and stops the server", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const controller = new AbortController();
+      let error: unknown = null;
+      try {
+        for await (const row of client.query("test.infinite", undefined, {
+          signal: controller.signal,
+        })) {
+          if (row.n === 2) controller.abort();
+        }
+      } catch (e) {
+        error = e;
+      }
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect((error as SeiroError).code).toBe("aborted");
+      expect(infiniteStopped).toBe(true);
+      client.close();
+    });
+
+    test("already aborted signal never sends the query", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      let error: unknown = null;
+      try {
+        await client.queryAll("test.numbers", { count: 1 }, {
+          signal: AbortSignal.abort(),
+        });
+      } catch (e) {
+        error = e;
+      }
+
+      expect((error as SeiroError).code).toBe("aborted");
+      client.close();
+    });
+
+    test("disconnecting stops running queries", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const iterator = client.query("test.infinite")[Symbol.asyncIterator]();
+      await iterator.next();
+      client.close();
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(infiniteStopped).toBe(true);
+    });
   });
 
   describe("authentication", () => {
@@ -334,6 +623,193 @@ describe("seiro integration", () => {
     });
   });
 
+  describe("session changes", () => {
+    test("authenticate logs in on a live socket", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL);
+      expect(await client.connect()).toBeNull();
+
+      const profile = await client.authenticate("valid-token");
+
+      expect(profile).toEqual({ id: 42 });
+      expect(client.getToken()).toBe("valid-token");
+      await expect(client.call("test.echo", { message: "hi" })).resolves.toEqual({
+        echoed: "hi",
+      });
+      client.close();
+    });
+
+    test("authenticate switches user and refreshes the profile", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const profile = await client.authenticate("user-123");
+
+      expect(profile).toEqual({ id: 123 });
+      await expect(client.call("test.owned", { ownerId: 123 })).resolves.toBeNull();
+      client.close();
+    });
+
+    test("invalid token is rejected and the session is kept", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const error = await client
+        .authenticate("expired-token")
+        .then(() => null, (e: SeiroError) => e);
+
+      expect(error).toBeInstanceOf(SeiroError);
+      expect(error?.code).toBe("not_authenticated");
+      await expect(client.call("test.owned", { ownerId: 42 })).resolves.toBeNull();
+      client.close();
+    });
+
+    test("logout drops the socket back to anonymous", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      await client.logout();
+
+      expect(client.getToken()).toBeNull();
+      expect(client.connected.value).toBe(true);
+      const error = await client.call("test.echo", { message: "x" }).catch((e) => e);
+      expect(error.code).toBe("not_authenticated");
+      client.close();
+    });
+
+    test("authenticate while disconnected connects with the token", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL);
+
+      const profile = await client.authenticate("valid-token");
+
+      expect(profile).toEqual({ id: 42 });
+      client.close();
+    });
+
+    test("canSubscribe denies patterns the principal may not see", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const audits: unknown[] = [];
+      const errors: ClientErrorInfo[] = [];
+      client.on("admin.audit", (data) => audits.push(data));
+      client.onError((info) => errors.push(info));
+      client.subscribe();
+      await new Promise((r) => setTimeout(r, 50));
+
+      serverApi.emit("admin.audit", { action: "reset" });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(audits).toEqual([]);
+      expect(errors).toEqual([
+        {
+          source: "subscription",
+          pattern: "admin.audit",
+          error: new SeiroError("forbidden", "Forbidden"),
+        },
+      ]);
+      expect(errors[0]!.error.code).toBe("forbidden");
+      client.close();
+    });
+
+    test("logout revokes subscriptions and re-auth restores them", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "admin-token",
+      });
+      await client.connect();
+
+      const audits: unknown[] = [];
+      client.on("admin.audit", (data) => audits.push(data));
+      client.subscribe();
+      await new Promise((r) => setTimeout(r, 50));
+
+      serverApi.emit("admin.audit", { action: "one" });
+      await new Promise((r) => setTimeout(r, 50));
+      await client.logout();
+      serverApi.emit("admin.audit", { action: "two" });
+      await new Promise((r) => setTimeout(r, 50));
+      await client.authenticate("admin-token");
+      await new Promise((r) => setTimeout(r, 50));
+      serverApi.emit("admin.audit", { action: "three" });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(audits).toEqual([{ action: "one" }, { action: "three" }]);
+      client.close();
+    });
+  });
+
+  describe("authorization", () => {
+    test("verify can return a principal with roles", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "admin-token",
+      });
+      await client.connect();
+
+      const result = await client.call("admin.reset", undefined as unknown as void);
+
+      expect(result).toEqual({ roles: ["admin"] });
+      client.close();
+    });
+
+    test("missing role is forbidden", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const error = await client
+        .call("admin.reset", undefined as unknown as void)
+        .catch((e) => e);
+
+      expect(error.code).toBe("forbidden");
+      client.close();
+    });
+
+    test("authorize guard sees the principal and payload", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      await expect(client.call("test.owned", { ownerId: 42 })).resolves.toBeNull();
+      const error = await client.call("test.owned", { ownerId: 1 }).catch((e) => e);
+
+      expect(error.code).toBe("forbidden");
+      client.close();
+    });
+
+    test("guards require authentication", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL);
+      await client.connect();
+
+      const error = await client
+        .call("test.owned", { ownerId: 99 })
+        .catch((e) => e);
+
+      expect(error.code).toBe("not_authenticated");
+      client.close();
+    });
+
+    test("setUserId updates the principal", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      await client.call("test.setUser", { userId: 99 });
+
+      await expect(client.call("test.owned", { ownerId: 99 })).resolves.toBeNull();
+      client.close();
+    });
+  });
+
   describe("events", () => {
     test("client receives emitted events", async () => {
       const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
@@ -408,6 +884,215 @@ describe("seiro integration", () => {
     });
   });
 
+  describe("event access", () => {
+    async function listen(token: string) {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token,
+      });
+      await client.connect();
+      const events: unknown[] = [];
+      client.on("test_event", (data) => events.push(data));
+      client.subscribe();
+      return { client, events };
+    }
+
+    test("emit to delivers only to the listed users", async () => {
+      const a = await listen("valid-token");
+      const b = await listen("user-123");
+      await new Promise((r) => setTimeout(r, 50));
+
+      serverApi.emit("test_event", { value: 1 }, { to: 42 });
+      serverApi.emit("test_event", { value: 2 }, { to: [123, 7] });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(a.events).toEqual([{ value: 1 }]);
+      expect(b.events).toEqual([{ value: 2 }]);
+      a.client.close();
+      b.client.close();
+    });
+
+    test("emit filter and transform run per recipient", async () => {
+      const a = await listen("valid-token");
+      const b = await listen("admin-token");
+      await new Promise((r) => setTimeout(r, 50));
+
+      serverApi.emit(
+        "test_event",
+        { value: 1 },
+        { filter: (client) => client.principal?.roles?.includes("admin") ?? false },
+      );
+      serverApi.emit(
+        "test_event",
+        { value: 10 },
+        {
+          transform: (payload, client) =>
+            client.userId === 42 ? { value: payload.value + 1 } : undefined,
+        },
+      );
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(a.events).toEqual([{ value: 11 }]);
+      expect(b.events).toEqual([{ value: 1 }]);
+      a.client.close();
+      b.client.close();
+    });
+
+    test("denied subscriptions get a forbidden reply", async () => {
+      const ws = new WebSocket(`${WS_URL}?token=valid-token`);
+      const messages: unknown[] = [];
+      ws.onmessage = (e) => messages.push(JSON.parse(e.data as string));
+      await new Promise((resolve) => (ws.onopen = resolve));
+
+      ws.send(JSON.stringify({ sub: "admin.audit" }));
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(messages).toContainEqual({
+        sub: "admin.audit",
+        err: "Forbidden",
+        code: "forbidden",
+      });
+      ws.close();
+    });
+
+    test("a throwing subscription check is sent back as an error", async () => {
+      const ws = new WebSocket(`${WS_URL}?token=flaky-token`);
+      const messages: unknown[] = [];
+      ws.onmessage = (e) => messages.push(JSON.parse(e.data as string));
+      await new Promise((resolve) => (ws.onopen = resolve));
+
+      ws.send(JSON.stringify({ sub: "test_event" }));
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(messages).toContainEqual({
+        sub: "test_event",
+        err: "Lookup failed",
+        code: "error",
+      });
+      ws.close();
+    });
+
+    test("a throwing check on re-auth revokes and still answers", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const events: unknown[] = [];
+      client.on("test_event", (data) => events.push(data));
+      client.subscribe();
+      await new Promise((r) => setTimeout(r, 50));
+
+      const profile = await client.authenticate("flaky-token");
+      expect(profile).toEqual({ id: 99 });
+      serverApi.emit("test_event", { value: 1 });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(events).toEqual([]);
+      client.close();
+    });
+  });
+
+  describe("targeted delivery", () => {
+    async function connect(token: string) {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token,
+      });
+      await client.connect();
+      const events: unknown[] = [];
+      // No subscribe(): targeted events arrive without a subscription
+      client.on("test_event", (data) => events.push(data));
+      return { client, events };
+    }
+
+    test("toUser reaches every socket of that user", async () => {
+      const tab1 = await connect("valid-token");
+      const tab2 = await connect("valid-token");
+      const other = await connect("user-123");
+
+      serverApi.toUser(42).send("test_event", { value: 1 });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(tab1.events).toEqual([{ value: 1 }]);
+      expect(tab2.events).toEqual([{ value: 1 }]);
+      expect(other.events).toEqual([]);
+      tab1.client.close();
+      tab2.client.close();
+      other.client.close();
+    });
+
+    test("toUser follows session changes", async () => {
+      const tab = await connect("valid-token");
+      await tab.client.authenticate("user-123");
+
+      serverApi.toUser(42).send("test_event", { value: 1 });
+      serverApi.toUser(123).send("test_event", { value: 2 });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(tab.events).toEqual([{ value: 2 }]);
+      tab.client.close();
+    });
+
+    test("toConnection reaches a single socket", async () => {
+      const tab1 = await connect("valid-token");
+      const tab2 = await connect("valid-token");
+      const { connectionId } = await tab1.client.call(
+        "test.connection",
+        undefined as unknown as void,
+      );
+
+      serverApi.toConnection(connectionId).send("test_event", { value: 1 });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(tab1.events).toEqual([{ value: 1 }]);
+      expect(tab2.events).toEqual([]);
+      tab1.client.close();
+      tab2.client.close();
+    });
+
+    test("rooms are joined and left from handlers", async () => {
+      const a = await connect("valid-token");
+      const b = await connect("user-123");
+      await a.client.call("test.join", { room: "team:1" });
+      await b.client.call("test.join", { room: "team:1" });
+
+      serverApi.toRoom("team:1").send("test_event", { value: 1 });
+      await new Promise((r) => setTimeout(r, 50));
+      await b.client.call("test.join", { room: "team:1", leave: true });
+      serverApi.toRoom("team:1").send("test_event", { value: 2 });
+      serverApi.toRoom("team:2").send("test_event", { value: 3 });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(a.events).toEqual([{ value: 1 }, { value: 2 }]);
+      expect(b.events).toEqual([{ value: 1 }]);
+      a.client.close();
+      b.client.close();
+    });
+
+    test("logging out leaves every room", async () => {
+      const tab = await connect("valid-token");
+      await tab.client.call("test.join", { room: "team-secret" });
+
+      await tab.client.logout();
+      serverApi.toRoom("team-secret").send("test_event", { value: 1 });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(tab.events).toEqual([]);
+      tab.client.close();
+    });
+
+    test("refreshing the token for the same user keeps its rooms", async () => {
+      const tab = await connect("valid-token");
+      await tab.client.call("test.join", { room: "team-secret" });
+
+      await tab.client.authenticate("valid-token");
+      serverApi.toRoom("team-secret").send("test_event", { value: 1 });
+      await new Promise((r) => setTimeout(r, 50));
+
+      expect(tab.events).toEqual([{ value: 1 }]);
+      tab.client.close();
+    });
+  });
+
   describe("signals", () => {
     test("sync updates signal on events", async () => {
       const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
@@ -517,6 +1202,203 @@ describe("seiro integration", () => {
     });
   });
 
+  describe("validation", () => {
+    test("valid command data reaches handler as schema output", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const result = await new Promise<{ count: number }>((resolve, reject) => {
+        client.cmd("test.validated", { count: "3" as unknown as number }, {
+          onSuccess: resolve,
+          onError: reject,
+        });
+      });
+
+      expect(result).toEqual({ count: 3 });
+      client.close();
+    });
+
+    test("invalid command data returns validation error", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const error = await new Promise<string>((resolve, reject) => {
+        client.cmd("test.validated", { count: "many" as unknown as number }, {
+          onSuccess: () => reject(new Error("Should have failed")),
+          onError: resolve,
+        });
+      });
+
+      expect(error).toBe("Validation failed");
+      client.close();
+    });
+
+    test("validation error carries issues on the wire", async () => {
+      const ws = new WebSocket(`${WS_URL}?token=valid-token`);
+      const messages: unknown[] = [];
+      await new Promise<void>((resolve) => {
+        ws.onmessage = (e) => {
+          messages.push(JSON.parse(e.data as string));
+          if (messages.length === 2) resolve();
+        };
+        ws.onopen = () => {
+          ws.send(
+            JSON.stringify({ cmd: "test.validated", cid: "v1", data: {}, ack: true }),
+          );
+        };
+      });
+
+      expect(messages[1]).toEqual({
+        cid: "v1",
+        err: "Validation failed",
+        code: "validation_failed",
+        details: {
+          issues: [{ message: "Expected integer", path: ["count"] }],
+        },
+      });
+      ws.close();
+    });
+
+    test("valid query params stream rows", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const rows = await client.queryAll("test.validated", { count: 2 });
+
+      expect(rows).toEqual([{ n: 1 }, { n: 2 }]);
+      client.close();
+    });
+
+    test("invalid query params throw validation error", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      let error: Error | null = null;
+      try {
+        await client.queryAll("test.validated", {} as { count: number });
+      } catch (e) {
+        error = e as Error;
+      }
+
+      expect(error?.message).toBe("Validation failed");
+      client.close();
+    });
+  });
+
+  describe("structured errors", () => {
+    test("onError receives the structured error after the message", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const [message, error] = await new Promise<[string, SeiroError]>(
+        (resolve, reject) => {
+          client.cmd("test.conflict", { email: "a@b.c" }, {
+            onSuccess: () => reject(new Error("Should have failed")),
+            onError: (err, error) => resolve([err, error]),
+          });
+        },
+      );
+
+      expect(message).toBe("Email already registered");
+      expect(error).toBeInstanceOf(SeiroError);
+      expect(error.code).toBe("conflict");
+      expect(error.details).toEqual({ fields: { email: "a@b.c" } });
+      client.close();
+    });
+
+    test("built-in failures carry their code", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL);
+      await client.connect();
+
+      const error = await new Promise<SeiroError>((resolve) => {
+        client.cmd("test.echo", { message: "x" }, {
+          onError: (_err, error) => resolve(error),
+        });
+      });
+
+      expect(error.code).toBe("not_authenticated");
+      client.close();
+    });
+
+    test("query rejects with SeiroError", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      let error: unknown = null;
+      try {
+        await client.queryAll("test.validated", {} as { count: number });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(SeiroError);
+      expect((error as SeiroError).code).toBe("validation_failed");
+      client.close();
+    });
+  });
+
+  describe("middleware", () => {
+    test("middleware can add state for the handler", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const result = await new Promise<{ tag: unknown }>((resolve, reject) => {
+        client.cmd("test.state", {}, { onSuccess: resolve, onError: reject });
+      });
+
+      expect(result).toEqual({ tag: "from-middleware" });
+      client.close();
+    });
+
+    test("middleware can short-circuit with an error", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      const error = await new Promise<string>((resolve, reject) => {
+        client.cmd("test.state", { block: true }, {
+          onSuccess: () => reject(new Error("Should have failed")),
+          onError: resolve,
+        });
+      });
+
+      expect(error).toBe("Blocked by middleware");
+      client.close();
+    });
+
+    test("middleware wraps queries and unknown commands", async () => {
+      const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
+        token: "valid-token",
+      });
+      await client.connect();
+
+      await client.queryAll("test.numbers", { count: 1 });
+      await new Promise<string>((resolve) => {
+        // @ts-expect-error - testing unknown command
+        client.cmd("unknown.traced", {}, { onError: resolve });
+      });
+
+      expect(dispatched).toContain("query:test.numbers");
+      expect(dispatched).toContain("cmd:unknown.traced");
+      client.close();
+    });
+  });
+
   describe("error handling", () => {
     test("unknown command returns error", async () => {
       const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL, {
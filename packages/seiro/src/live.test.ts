@@ -0,0 +1,242 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createServer } from "./server";
+import { createClient, effect, msgpackCodec, type LiveQuery } from "./client";
+import type { Query } from "./types";
+import { until, settle, greeted } from "./test-helpers";
+
+type Item = { id: number; name: string };
+type Counter = { id: number; n: bigint };
+
+type TestQueries = {
+  "items.all": Query<void, Item>;
+  "items.applied": Query<void, Item>;
+  "items.plain": Query<void, Item>;
+  "counters.all": Query<void, Counter>;
+};
+
+type TestEvents = {
+  "item.saved": Item;
+  "item.removed": { id: number };
+  "counter.saved": { id: number };
+};
+
+const PORT = 3464;
+const WS_URL = `ws://localhost:${PORT}/ws`;
+
+describe("live queries", () => {
+  const items = new Map<number, Item>();
+  let runs = 0;
+
+  const serverApi = createServer<{}, TestQueries, TestEvents>({
+    port: PORT,
+    metrics: true,
+  });
+
+  serverApi.query(
+    "items.all",
+    async function* () {
+      runs++;
+      yield* items.values();
+    },
+    { live: { events: ["item.*"], key: (item) => item.id } },
+  );
+
+  serverApi.query(
+    "items.applied",
+    async function* () {
+      runs++;
+      yield* items.values();
+    },
+    {
+      live: {
+        events: ["item.saved", "item.removed"],
+        key: (item) => item.id,
+        apply: (event, data) =>
+          event === "item.saved"
+            ? { upsert: data as Item }
+            : { delete: data.id },
+      },
+    },
+  );
+
+  serverApi.query("items.plain", async function* () {
+    yield* items.values();
+  });
+
+  const counters = new Map<number, Counter>();
+  serverApi.query(
+    "counters.all",
+    async function* () {
+      yield* counters.values();
+    },
+    { live: { events: ["counter.saved"], key: (counter) => counter.id } },
+  );
+
+  serverApi.onOpen(async (ctx) => {
+    ctx.send({ profile: null });
+  });
+
+  let server: Awaited<ReturnType<typeof serverApi.start>>;
+  let client: ReturnType<typeof createClient<{}, TestQueries, TestEvents>>;
+
+  beforeAll(async () => {
+    server = await serverApi.start();
+    client = createClient<{}, TestQueries, TestEvents>(WS_URL);
+    await client.connect();
+  });
+
+  afterAll(() => {
+    client.close();
+    server.stop(true);
+  });
+
+  function reset(...rows: Item[]) {
+    items.clear();
+    for (const row of rows) items.set(row.id, row);
+    runs = 0;
+  }
+
+  function save(item: Item) {
+    items.set(item.id, item);
+    serverApi.emit("item.saved", item);
+  }
+
+  function remove(id: number) {
+    items.delete(id);
+    serverApi.emit("item.removed", { id });
+  }
+
+  test("starts with a snapshot of the query", async () => {
+    reset({ id: 1, name: "a" }, { id: 2, name: "b" });
+    const live = client.live("items.all");
+    await until(() => live.ready.value);
+
+    expect([...live.rows.value]).toEqual([
+      [1, { id: 1, name: "a" }],
+      [2, { id: 2, name: "b" }],
+    ]);
+    live.close();
+  });
+
+  test("declared events re-run the query and send the diff", async () => {
+    reset({ id: 1, name: "a" }, { id: 2, name: "b" });
+    const live = client.live("items.all");
+    await until(() => live.ready.value);
+
+    save({ id: 1, name: "changed" });
+    remove(2);
+    save({ id: 3, name: "c" });
+    await until(() => live.rows.value.has(3) && !live.rows.value.has(2));
+
+    expect([...live.rows.value]).toEqual([
+      [1, { id: 1, name: "changed" }],
+      [3, { id: 3, name: "c" }],
+    ]);
+    live.close();
+  });
+
+  test("apply updates rows without re-running", async () => {
+    reset({ id: 1, name: "a" }, { id: 2, name: "b" });
+    const live = client.live("items.applied");
+    await until(() => live.ready.value);
+
+    save({ id: 1, name: "changed" });
+    remove(2);
+    await until(() => !live.rows.value.has(2));
+
+    expect(runs).toBe(1);
+    expect([...live.rows.value]).toEqual([[1, { id: 1, name: "changed" }]]);
+    live.close();
+  });
+
+  test("close stops updates", async () => {
+    reset({ id: 1, name: "a" });
+    const live = client.live("items.all");
+    await until(() => live.ready.value);
+    live.close();
+    await settle();
+
+    save({ id: 2, name: "b" });
+    await settle();
+
+    expect([...live.rows.value.keys()]).toEqual([1]);
+    expect(runs).toBe(1);
+  });
+
+  test("a query without live options is an error", async () => {
+    const live = client.live("items.plain");
+    await until(() => live.error.value !== null);
+
+    expect(live.error.value?.message).toBe("Not a live query: items.plain");
+    expect(live.ready.value).toBe(false);
+  });
+
+  test("rows holding BigInts are diffed", async () => {
+    const packed = createClient<{}, TestQueries, TestEvents>(WS_URL, {
+      codec: msgpackCodec,
+    });
+    await packed.connect();
+    counters.set(1, { id: 1, n: 10n });
+    counters.set(2, { id: 2, n: 20n });
+    const live = packed.live("counters.all");
+    await until(() => live.ready.value);
+
+    counters.set(1, { id: 1, n: 11n });
+    serverApi.emit("counter.saved", { id: 1 });
+    await until(() => live.rows.value.get(1)?.n === 11n);
+
+    expect([...live.rows.value]).toEqual([
+      [1, { id: 1, n: 11n }],
+      [2, { id: 2, n: 20n }],
+    ]);
+    live.close();
+    packed.close();
+  });
+
+  test("reusing an id replaces the live query", async () => {
+    reset({ id: 1, name: "a" });
+    const gauge = async () => {
+      const res = await fetch(`http://localhost:${PORT}/metrics`);
+      return (await res.text()).match(/^seiro_live_queries (\d+)$/m)?.[1];
+    };
+    const socket = await greeted(WS_URL);
+    socket.ws.send(JSON.stringify({ id: "dup", live: "items.all" }));
+    socket.ws.send(JSON.stringify({ id: "dup", live: "items.all" }));
+    await until(() => runs === 2);
+    await settle();
+
+    expect(await gauge()).toBe("1");
+    save({ id: 2, name: "b" });
+    await until(() => runs === 3);
+    await settle();
+    expect(runs).toBe(3);
+
+    socket.ws.close();
+    await socket.closed;
+    await settle();
+    expect(await gauge()).toBe("0");
+  });
+
+  test("a live query made in an effect starts once after a reconnect", async () => {
+    reset({ id: 1, name: "a" });
+    const other = createClient<{}, TestQueries, TestEvents>(WS_URL);
+    await other.connect();
+    let live: LiveQuery<Item> | null = null;
+    let effects = 0;
+    const dispose = effect(() => {
+      effects++;
+      live?.close();
+      live = other.live("items.all");
+    });
+    await until(() => runs === 1);
+
+    await other.reconnect();
+    await until(() => runs === 2);
+    await settle();
+
+    expect(runs).toBe(2);
+    expect(effects).toBe(1);
+    dispose();
+    other.close();
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createMetrics } from "./metrics";
+import {
+  createServer,
+  type ClientData,
+  type DisconnectInfo,
+  type EmitInfo,
+  type QueryInfo,
+  type RequestInfo,
+} from "./server";
+import { createClient } from "./client";
+import type { Command, Query } from "./types";
+import { until } from "./test-helpers";
+
+const gauges = { connections: 2, subscriptions: 3, liveQueries: 0 };
+
+describe("metrics", () => {
+  test("renders gauges and counters", () => {
+    const metrics = createMetrics();
+    metrics.connect();
+    metrics.emit(4);
+    const text = metrics.render(gauges);
+
+    expect(text).toContain("# TYPE seiro_connections gauge\n");
+    expect(text).toContain("seiro_connections 2\n");
+    expect(text).toContain("seiro_connections_total 1\n");
+    expect(text).toContain("seiro_subscriptions 3\n");
+    expect(text).toContain("seiro_events_emitted_total 1\n");
+    expect(text).toContain("seiro_event_deliveries_total 4\n");
+  });
+
+  test("renders cumulative latency histograms and outcomes", () => {
+    const metrics = createMetrics();
+    metrics.request("command", "a.save", 0.02, "ok");
+    metrics.request("command", "a.save", 0.3, "error");
+    const text = metrics.render(gauges);
+
+    const bucket = (le: string) =>
+      `seiro_command_duration_seconds_bucket{command="a.save",le="${le}"}`;
+    expect(text).toContain(`${bucket("0.01")} 0\n`);
+    expect(text).toContain(`${bucket("0.025")} 1\n`);
+    expect(text).toContain(`${bucket("0.5")} 2\n`);
+    expect(text).toContain(`${bucket("+Inf")} 2\n`);
+    expect(text).toContain(
+      'seiro_command_duration_seconds_count{command="a.save"} 2\n',
+    );
+    expect(text).toContain(
+      'seiro_commands_total{command="a.save",outcome="ok"} 1\n',
+    );
+    expect(text).toContain(
+      'seiro_commands_total{command="a.save",outcome="error"} 1\n',
+    );
+  });
+
+  test("escapes label values", () => {
+    const metrics = createMetrics();
+    metrics.request("query", 'a"b\\c', 0.001, "ok");
+
+    expect(metrics.render(gauges)).toContain(
+      'seiro_queries_total{query="a\\"b\\\\c",outcome="ok"} 1\n',
+    );
+  });
+});
+
+type TestCommands = {
+  "test.echo": Command<{ value: number }, { value: number }>;
+  "test.fail": Command<void, void>;
+};
+
+type TestQueries = {
+  "test.count": Query<{ to: number }, { n: number }>;
+};
+
+type TestEvents = {
+  test_event: { n: number };
+};
+
+const PORT = 3474;
+const WS_URL = `ws://localhost:${PORT}/ws`;
+
+describe("lifecycle hooks", () => {
+  const commands: RequestInfo[] = [];
+  const queries: QueryInfo[] = [];
+  const emits: EmitInfo[] = [];
+  const connects: ClientData[] = [];
+  const disconnects: DisconnectInfo[] = [];
+
+  const serverApi = createServer<TestCommands, TestQueries, TestEvents>({
+    port: PORT,
+    metrics: true,
+  });
+
+  serverApi.command("test.echo", async (data) => data);
+  serverApi.command("test.fail", async () => {
+    throw new Error("Nope");
+  });
+  serverApi.query("test.count", async function* (params) {
+    for (let n = 1; n <= params.to; n++) yield { n };
+  });
+
+  serverApi.onCommand((info) => commands.push(info));
+  serverApi.onQuery((info) => queries.push(info));
+  serverApi.onEmit((info) => emits.push(info));
+  serverApi.onConnect((client) => connects.push(client));
+  serverApi.onDisconnect((info) => disconnects.push(info));
+  serverApi.onCommand(() => {
+    throw new Error("A broken hook");
+  });
+
+  let server: Awaited<ReturnType<typeof serverApi.start>>;
+
+  beforeAll(async () => {
+    server = await serverApi.start();
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("hooks see each request's timing and outcome", async () => {
+    const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL);
+    await client.connect();
+    await until(() => connects.length === 1);
+    const connectionId = connects[0]!.id;
+
+    client.on("test_event", () => {});
+    client.subscribe();
+    await client.call("test.echo", { value: 1 });
+    await client.call("test.fail", undefined).catch(() => {});
+    await client.queryAll("test.count", { to: 3 });
+    serverApi.emit("test_event", { n: 1 });
+
+    expect(commands).toEqual([
+      {
+        name: "test.echo",
+        client: expect.objectContaining({ id: connectionId }),
+        duration: expect.any(Number),
+        outcome: "ok",
+      },
+      expect.objectContaining({
+        name: "test.fail",
+        outcome: "error",
+        error: expect.objectContaining({ message: "Nope" }),
+      }),
+    ]);
+    expect(queries).toEqual([
+      expect.objectContaining({
+        name: "test.count",
+        outcome: "ok",
+        rows: 3,
+        live: false,
+      }),
+    ]);
+    expect(emits).toEqual([
+      { channel: "test_event", recipients: 1, duration: expect.any(Number) },
+    ]);
+
+    client.close();
+    await until(() => disconnects.length === 1);
+    expect(disconnects[0]).toMatchObject({
+      client: { id: connectionId },
+      code: 1000,
+    });
+  });
+
+  test("/metrics serves Prometheus text", async () => {
+    const client = createClient<TestCommands, TestQueries, TestEvents>(WS_URL);
+    await client.connect();
+    await client.call("test.echo", { value: 1 });
+
+    const response = await fetch(`http://localhost:${PORT}/metrics`);
+    const text = await response.text();
+
+    expect(response.headers.get("Content-Type")).toContain("text/plain");
+    expect(text).toContain("seiro_connections 1\n");
+    expect(text).toContain(
+      'seiro_commands_total{command="test.echo",outcome="ok"} 2\n',
+    );
+    expect(text).toContain(
+      'seiro_commands_total{command="test.fail",outcome="error"} 1\n',
+    );
+    expect(text).toContain(
+      'seiro_query_duration_seconds_count{query="test.count"} 1\n',
+    );
+    client.close();
+  });
+
+  test("unregistered names share one series", async () => {
+    const ws = new WebSocket(WS_URL);
+    await new Promise((resolve) => (ws.onopen = resolve));
+    ws.send(JSON.stringify({ cmd: "made.up", cid: "x", data: {} }));
+    await until(() => commands.some((c) => c.name === "made.up"));
+
+    const text = await (await fetch(`http://localhost:${PORT}/metrics`)).text();
+    expect(text).not.toContain("made.up");
+    expect(text).toContain(
+      'seiro_commands_total{command="unknown",outcome="error"} 1\n',
+    );
+    ws.close();
+  });
+});
@@ -0,0 +1,165 @@
+// Request metrics in the Prometheus text format, for the /metrics route
+
+export type Outcome = "ok" | "error" | "cancelled";
+
+// Latency buckets in seconds, from 5ms to 10s
+const BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type Histogram = { counts: number[]; sum: number; count: number };
+
+// Gauges are read from the server when the metrics are rendered
+export type Gauges = {
+  connections: number;
+  subscriptions: number;
+  liveQueries: number;
+};
+
+export type Metrics = {
+  // `name` must be a registered command or query, so clients can't
+  // create series by sending made-up names
+  request(
+    kind: "command" | "query",
+    name: string,
+    seconds: number,
+    outcome: Outcome,
+  ): void;
+  emit(recipients: number): void;
+  connect(): void;
+  render(gauges: Gauges): string;
+};
+
+export function createMetrics(): Metrics {
+  const latency = {
+    command: new Map<string, Histogram>(),
+    query: new Map<string, Histogram>(),
+  };
+  // Request totals by kind, name and outcome
+  const totals = {
+    command: new Map<string, Map<Outcome, number>>(),
+    query: new Map<string, Map<Outcome, number>>(),
+  };
+  let connections = 0;
+  let emits = 0;
+  let deliveries = 0;
+
+  function observe(
+    histograms: Map<string, Histogram>,
+    name: string,
+    n: number,
+  ) {
+    let h = histograms.get(name);
+    if (!h) {
+      h = { counts: BUCKETS.map(() => 0), sum: 0, count: 0 };
+      histograms.set(name, h);
+    }
+    for (let i = 0; i < BUCKETS.length; i++) {
+      if (n <= BUCKETS[i]!) h.counts[i]!++;
+    }
+    h.sum += n;
+    h.count++;
+  }
+
+  function render(gauges: Gauges): string {
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string) =>
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+
+    const single = (name: string, type: string, help: string, n: number) => {
+      metric(name, type, help);
+      lines.push(`${name} ${n}`);
+    };
+
+    single(
+      "seiro_connections",
+      "gauge",
+      "Open WebSocket connections.",
+      gauges.connections,
+    );
+    single(
+      "seiro_connections_total",
+      "counter",
+      "WebSocket connections opened.",
+      connections,
+    );
+    single(
+      "seiro_subscriptions",
+      "gauge",
+      "Event subscriptions across connections.",
+      gauges.subscriptions,
+    );
+    single(
+      "seiro_live_queries",
+      "gauge",
+      "Running live queries.",
+      gauges.liveQueries,
+    );
+    single(
+      "seiro_events_emitted_total",
+      "counter",
+      "Events emitted on this server.",
+      emits,
+    );
+    single(
+      "seiro_event_deliveries_total",
+      "counter",
+      "Emitted events sent to this server's connections.",
+      deliveries,
+    );
+
+    for (const kind of ["command", "query"] as const) {
+      const plural = kind === "command" ? "commands" : "queries";
+      metric(
+        `seiro_${plural}_total`,
+        "counter",
+        `Finished ${plural} by outcome.`,
+      );
+      for (const [name, outcomes] of totals[kind]) {
+        for (const [outcome, n] of outcomes) {
+          lines.push(
+            `seiro_${plural}_total{${kind}="${escape(name)}",outcome="${outcome}"} ${n}`,
+          );
+        }
+      }
+      const histogram = `seiro_${kind}_duration_seconds`;
+      metric(histogram, "histogram", `Time to finish a ${kind}.`);
+      for (const [name, h] of latency[kind]) {
+        const label = `${kind}="${escape(name)}"`;
+        BUCKETS.forEach((le, i) => {
+          lines.push(`${histogram}_bucket{${label},le="${le}"} ${h.counts[i]}`);
+        });
+        lines.push(`${histogram}_bucket{${label},le="+Inf"} ${h.count}`);
+        lines.push(`${histogram}_sum{${label}} ${h.sum}`);
+        lines.push(`${histogram}_count{${label}} ${h.count}`);
+      }
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  return {
+    request(kind, name, seconds, outcome) {
+      observe(latency[kind], name, seconds);
+      let outcomes = totals[kind].get(name);
+      if (!outcomes) {
+        outcomes = new Map();
+        totals[kind].set(name, outcomes);
+      }
+      outcomes.set(outcome, (outcomes.get(outcome) ?? 0) + 1);
+    },
+    emit(recipients) {
+      emits++;
+      deliveries += recipients;
+    },
+    connect() {
+      connections++;
+    },
+    render,
+  };
+}
+
+// Label values may hold any text; these three must be escaped
+function escape(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
@@ -0,0 +1,192 @@
+import { describe, test, expect } from "bun:test";
+import { createNotifyBridge, type PostgresListener } from "./notify";
+import type { StandardSchemaV1 } from "./schema";
+import { settle, sleep } from "./test-helpers";
+
+type TestEvents = {
+  order_created: { id: number; userId: number };
+  order_shipped: { id: number; userId: number };
+};
+
+// Stand-in for a postgres Sql instance with a way to fire notifications
+// and simulate reconnects
+function fakeSql() {
+  const channels = new Map<
+    string,
+    { onnotify: (payload: string) => void; onlisten?: () => void }
+  >();
+  const unlistened: string[] = [];
+  const sql: PostgresListener = {
+    async listen(channel, onnotify, onlisten) {
+      channels.set(channel, { onnotify, onlisten });
+      onlisten?.();
+      return { unlisten: async () => unlistened.push(channel) };
+    },
+  };
+  return {
+    sql,
+    unlistened,
+    notify: (channel: string, payload: string) =>
+      channels.get(channel)!.onnotify(payload),
+    reconnect: () => {
+      for (const { onlisten } of channels.values()) onlisten?.();
+    },
+  };
+}
+
+function fakeServer() {
+  const emitted: [string, unknown, unknown][] = [];
+  return {
+    emitted,
+    emit: (channel: string | number, payload: unknown, options?: unknown) => {
+      emitted.push([String(channel), payload, options]);
+    },
+  };
+}
+
+const orderSchema: StandardSchemaV1<unknown, TestEvents["order_created"]> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const v = value as { id?: unknown; userId?: unknown };
+      return typeof v.id === "number" && typeof v.userId === "number"
+        ? { value: { id: v.id, userId: v.userId } }
+        : { issues: [{ message: "Expected an order" }] };
+    },
+  },
+};
+
+describe("notify bridge", () => {
+  test("emits parsed payloads locally", async () => {
+    const { sql, notify } = fakeSql();
+    const server = fakeServer();
+    await createNotifyBridge<TestEvents>(server, sql, {
+      channels: ["order_created", "order_shipped"],
+    });
+
+    notify("order_shipped", '{"id":1,"userId":2}');
+    await settle(10);
+
+    expect(server.emitted).toEqual([
+      ["order_shipped", { id: 1, userId: 2 }, { local: true }],
+    ]);
+  });
+
+  test("drops payloads that are not JSON", async () => {
+    const { sql, notify } = fakeSql();
+    const server = fakeServer();
+    await createNotifyBridge<TestEvents>(server, sql, {
+      channels: ["order_created"],
+    });
+
+    notify("order_created", "{oops");
+    await settle(10);
+
+    expect(server.emitted).toEqual([]);
+  });
+
+  test("validates payloads against the channel schema", async () => {
+    const { sql, notify } = fakeSql();
+    const server = fakeServer();
+    await createNotifyBridge<TestEvents>(server, sql, {
+      channels: ["order_created"],
+      schemas: { order_created: orderSchema },
+    });
+
+    notify("order_created", '{"id":"x"}');
+    notify("order_created", '{"id":1,"userId":2,"extra":true}');
+    await settle(10);
+
+    expect(server.emitted.map(([, data]) => data)).toEqual([
+      { id: 1, userId: 2 },
+    ]);
+  });
+
+  test("fetches large events by id", async () => {
+    const { sql, notify } = fakeSql();
+    const server = fakeServer();
+    const fetched: unknown[] = [];
+    await createNotifyBridge<TestEvents>(server, sql, {
+      channels: ["order_created"],
+      fetch: async (channel, id) => {
+        fetched.push([channel, id]);
+        return id === 404 ? null : { id, userId: 9 };
+      },
+    });
+
+    notify("order_created", '{"$fetch":5}');
+    notify("order_created", '{"$fetch":404}');
+    await settle(10);
+
+    expect(fetched).toEqual([
+      ["order_created", 5],
+      ["order_created", 404],
+    ]);
+    expect(server.emitted.map(([, data]) => data)).toEqual([
+      { id: 5, userId: 9 },
+    ]);
+  });
+
+  test("fetched events keep their place among later ones", async () => {
+    const { sql, notify } = fakeSql();
+    const server = fakeServer();
+    await createNotifyBridge<TestEvents>(server, sql, {
+      channels: ["order_created"],
+      fetch: async (_channel, id) => {
+        await sleep(20);
+        return { id, userId: 9 };
+      },
+    });
+
+    notify("order_created", '{"$fetch":1}');
+    notify("order_created", '{"id":2,"userId":9}');
+    await settle();
+
+    expect(server.emitted.map(([, data]) => data)).toEqual([
+      { id: 1, userId: 9 },
+      { id: 2, userId: 9 },
+    ]);
+  });
+
+  test("route supplies emit options per event", async () => {
+    const { sql, notify } = fakeSql();
+    const server = fakeServer();
+    await createNotifyBridge<TestEvents>(server, sql, {
+      channels: ["order_created"],
+      route: (_channel, order) => ({ to: order.userId }),
+    });
+
+    notify("order_created", '{"id":1,"userId":2}');
+    await settle(10);
+
+    expect(server.emitted[0]![2]).toEqual({ to: 2, local: true });
+  });
+
+  test("onListen reports reconnects", async () => {
+    const { sql, reconnect } = fakeSql();
+    const calls: [string, boolean][] = [];
+    await createNotifyBridge<TestEvents>(fakeServer(), sql, {
+      channels: ["order_created"],
+      onListen: (channel, reconnected) => calls.push([channel, reconnected]),
+    });
+
+    reconnect();
+
+    expect(calls).toEqual([
+      ["order_created", false],
+      ["order_created", true],
+    ]);
+  });
+
+  test("close unlistens every channel", async () => {
+    const { sql, unlistened } = fakeSql();
+    const bridge = await createNotifyBridge<TestEvents>(fakeServer(), sql, {
+      channels: ["order_created", "order_shipped"],
+    });
+
+    await bridge.close();
+
+    expect(unlistened).toEqual(["order_created", "order_shipped"]);
+  });
+});
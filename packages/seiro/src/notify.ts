@@ -0,0 +1,130 @@
+// Bridge Postgres NOTIFY channels to server.emit()
+
+import { notifyLogger } from "./logger";
+import { validate, type StandardSchemaV1 } from "./schema";
+import type { EmitOptions } from "./server";
+import type { EventsDef } from "./types";
+
+// Structural type satisfied by the `postgres` package's Sql instance.
+// onlisten runs on the first LISTEN and again after every reconnect.
+export type PostgresListener = {
+  listen: (
+    channel: string,
+    onnotify: (payload: string) => void,
+    onlisten?: () => void,
+  ) => PromiseLike<{ unlisten: () => PromiseLike<unknown> }>;
+};
+
+// NOTIFY payloads are limited to 8000 bytes; a trigger can send
+// `{"$fetch": id}` instead of the row and the bridge loads it by id
+export type FetchRef = { $fetch: string | number };
+
+export type NotifyBridgeOptions<E extends EventsDef> = {
+  channels: (keyof E & string)[];
+  // Payloads failing their channel's schema are logged and dropped
+  schemas?: { [K in keyof E]?: StandardSchemaV1<unknown, E[K]> };
+  // Load the data for a `{"$fetch": id}` payload; null drops the event
+  fetch?: (channel: keyof E & string, id: string | number) => Promise<unknown>;
+  // Per-event emit options, e.g. `{ to: row.userId }`
+  route?: (
+    channel: keyof E & string,
+    data: E[keyof E],
+  ) => EmitOptions<E[keyof E]>;
+  // Called on every LISTEN; after a reconnect, notifications sent while
+  // disconnected are lost, so clients may need to resync
+  onListen?: (channel: keyof E & string, reconnected: boolean) => void;
+};
+
+type Emitter<E extends EventsDef> = {
+  emit: <K extends keyof E>(
+    channel: K,
+    payload: E[K],
+    options?: EmitOptions<E[K]>,
+  ) => void;
+};
+
+function isFetchRef(value: unknown): value is FetchRef {
+  return typeof value === "object" && value !== null && "$fetch" in value;
+}
+
+// Every node runs its own LISTEN, so events are emitted locally only
+// and never re-published to a backplane
+export async function createNotifyBridge<E extends EventsDef>(
+  server: Emitter<E>,
+  sql: PostgresListener,
+  options: NotifyBridgeOptions<E>,
+): Promise<{ close: () => Promise<void> }> {
+  async function handle(channel: keyof E & string, payload: string) {
+    let data: unknown;
+    try {
+      data = JSON.parse(payload);
+    } catch (e) {
+      notifyLogger.error(`Failed to parse ${channel} payload:`, payload, e);
+      return;
+    }
+
+    if (isFetchRef(data)) {
+      if (!options.fetch) {
+        notifyLogger.error(`${channel} sent $fetch but no fetch is configured`);
+        return;
+      }
+      const id = data.$fetch;
+      data = await options.fetch(channel, id);
+      if (data == null) {
+        notifyLogger.warn(`${channel}: nothing found for ${id}`);
+        return;
+      }
+    }
+
+    const schema = options.schemas?.[channel];
+    if (schema) {
+      const checked = await validate(schema, data);
+      if (!checked.ok) {
+        notifyLogger.error(`Invalid ${channel} payload:`, checked.issues);
+        return;
+      }
+      data = checked.value;
+    }
+
+    const event = data as E[keyof E];
+    server.emit(channel, event, {
+      ...options.route?.(channel, event),
+      local: true,
+    });
+  }
+
+  // One notification at a time, so a payload that must be fetched isn't
+  // overtaken by the ones sent after it
+  let queue = Promise.resolve();
+
+  const listening = await Promise.all(
+    options.channels.map((channel) => {
+      let listened = false;
+      return sql.listen(
+        channel,
+        (payload) => {
+          queue = queue
+            .then(() => handle(channel, payload))
+            .catch((e) =>
+              notifyLogger.error(`Failed to handle ${channel}:`, e),
+            );
+        },
+        () => {
+          notifyLogger.info(
+            listened
+              ? `Listening on ${channel} again after reconnect`
+              : `Listening on ${channel}`,
+          );
+          options.onListen?.(channel, listened);
+          listened = true;
+        },
+      );
+    }),
+  );
+
+  return {
+    async close() {
+      await Promise.all(listening.map((l) => l.unlisten()));
+    },
+  };
+}
@@ -0,0 +1,74 @@
+// Outbox storage for commands issued while the client is offline
+
+import type { Cmd } from "./protocol";
+
+// A queued command; seq keeps replay in the order commands were issued
+export type OutboxEntry = Cmd & { seq: number };
+
+export interface OutboxStore {
+  load(): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  delete(cid: string): Promise<void>;
+}
+
+export function createMemoryOutbox(): OutboxStore {
+  const entries = new Map<string, OutboxEntry>();
+  return {
+    async load() {
+      return [...entries.values()].sort((a, b) => a.seq - b.seq);
+    },
+    async put(entry) {
+      entries.set(entry.cid, entry);
+    },
+    async delete(cid) {
+      entries.delete(cid);
+    },
+  };
+}
+
+// Persists across page reloads; entries are keyed by cid
+export function createIndexedDbOutbox(
+  dbName = "seiro",
+  storeName = "outbox",
+): OutboxStore {
+  let db: Promise<IDBDatabase> | null = null;
+
+  function open(): Promise<IDBDatabase> {
+    db ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(dbName, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(storeName, { keyPath: "cid" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return db;
+  }
+
+  async function run<T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const store = (await open())
+      .transaction(storeName, mode)
+      .objectStore(storeName);
+    return new Promise((resolve, reject) => {
+      const req = fn(store);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+
+  return {
+    async load() {
+      const entries = await run<OutboxEntry[]>("readonly", (s) => s.getAll());
+      return entries.sort((a, b) => a.seq - b.seq);
+    },
+    async put(entry) {
+      await run("readwrite", (s) => s.put(entry));
+    },
+    async delete(cid) {
+      await run("readwrite", (s) => s.delete(cid));
+    },
+  };
+}
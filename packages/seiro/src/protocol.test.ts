@@ -9,13 +9,35 @@ import {
   isCmdError,
   isRow,
   isEnd,
+  isQueryError,
+  isCancel,
+  isCredit,
+  isRows,
+  isBatch,
+  isAuth,
+  isLogout,
+  isSession,
+  isSessionError,
+  isSubError,
+  isSub,
+  isUnsub,
+  isSubAck,
   isEvent,
+  isHello,
+  isWelcome,
+  isWelcomeError,
+  isPing,
+  isPong,
+  isGoAway,
+  encodeBearer,
+  decodeBearer,
   type Cmd,
   type CmdResult,
   type CmdError,
   type QueryMsg,
   type Row,
   type End,
+  type QueryError,
   type Event,
 } from "./protocol";
 
@@ -63,10 +85,10 @@ describe("protocol", () => {
       expect(ids.size).toBe(1000);
     });
 
-    test("generates IDs of reasonable length", () => {
-      const id = cid();
-      expect(id.length).toBeGreaterThanOrEqual(4);
-      expect(id.length).toBeLessThanOrEqual(12);
+    test("generates UUIDs", () => {
+      expect(cid()).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+      );
     });
   });
 
@@ -146,6 +168,15 @@ describe("protocol", () => {
       expect(isCmdError(error)).toBe(true);
     });
 
+    test("returns true for structured error", () => {
+      const error: CmdError = {
+        cid: "abc",
+        err: "Not authenticated",
+        code: "not_authenticated",
+      };
+      expect(isCmdError(error)).toBe(true);
+    });
+
     test("returns false for result", () => {
       expect(isCmdError({ cid: "abc", result: {} })).toBe(false);
     });
@@ -174,6 +205,26 @@ describe("protocol", () => {
     });
   });
 
+  describe("isRows", () => {
+    test("returns true for a chunk of rows", () => {
+      expect(isRows({ id: 1, rows: [{ n: 1 }, { n: 2 }] })).toBe(true);
+    });
+
+    test("returns false for a single row", () => {
+      expect(isRows({ id: 1, row: {} })).toBe(false);
+    });
+  });
+
+  describe("isBatch", () => {
+    test("returns true for an array of messages", () => {
+      expect(isBatch([{ cancel: 1 }, { q: "users.all", id: 2 }])).toBe(true);
+    });
+
+    test("returns false for a single message", () => {
+      expect(isBatch({ cancel: 1 })).toBe(false);
+    });
+  });
+
   describe("isEnd", () => {
     test("returns true for valid end marker", () => {
       const end: End = { id: 1 };
@@ -188,11 +239,163 @@ describe("protocol", () => {
       expect(isEnd({ id: 1, err: "failed" })).toBe(false);
     });
 
+    test("returns false for rows", () => {
+      expect(isEnd({ id: 1, rows: [] })).toBe(false);
+    });
+
     test("returns false without id", () => {
       expect(isEnd({})).toBe(false);
     });
   });
 
+  describe("isQueryError", () => {
+    test("returns true for valid query error", () => {
+      const error: QueryError = { id: 1, err: "failed" };
+      expect(isQueryError(error)).toBe(true);
+    });
+
+    test("returns true for error with code and details", () => {
+      const error: QueryError = {
+        id: 1,
+        err: "Validation failed",
+        code: "validation_failed",
+        details: { issues: [{ message: "Required", path: ["count"] }] },
+      };
+      expect(isQueryError(error)).toBe(true);
+    });
+
+    test("returns false for row", () => {
+      expect(isQueryError({ id: 1, row: {} })).toBe(false);
+    });
+
+    test("returns false for command error", () => {
+      expect(isQueryError({ cid: "abc", err: "failed" })).toBe(false);
+    });
+  });
+
+  describe("isCancel", () => {
+    test("returns true for cancel message", () => {
+      expect(isCancel({ cancel: 1 })).toBe(true);
+    });
+
+    test("returns false for query", () => {
+      expect(isCancel({ q: "users.all", id: 1 })).toBe(false);
+    });
+  });
+
+  describe("isCredit", () => {
+    test("returns true for credit message", () => {
+      expect(isCredit({ id: 1, credit: 50 })).toBe(true);
+    });
+
+    test("returns false for query with initial credit", () => {
+      expect(isCredit({ q: "users.all", id: 1, credit: 50 })).toBe(false);
+    });
+  });
+
+  describe("isHello / isWelcome / isWelcomeError", () => {
+    test("recognise the handshake", () => {
+      const welcome = {
+        welcome: 1,
+        connectionId: "c1",
+        codec: "json",
+        capabilities: [],
+      };
+      expect(isHello({ hello: 1 })).toBe(true);
+      expect(isWelcome(welcome)).toBe(true);
+      expect(isWelcomeError(welcome)).toBe(false);
+    });
+
+    test("a refused hello is a welcome error", () => {
+      const refused = { welcome: 1, err: "Not supported" };
+      expect(isWelcomeError(refused)).toBe(true);
+      expect(isWelcome(refused)).toBe(false);
+    });
+  });
+
+  describe("isPing / isPong", () => {
+    test("recognise heartbeats", () => {
+      expect(isPing({ ping: 1 })).toBe(true);
+      expect(isPong({ pong: 1 })).toBe(true);
+      expect(isPing({ pong: 1 })).toBe(false);
+    });
+  });
+
+  describe("isGoAway", () => {
+    test("recognises the shutdown notice", () => {
+      expect(isGoAway({ goaway: "Server is shutting down" })).toBe(true);
+      expect(isGoAway({ welcome: 1 })).toBe(false);
+    });
+  });
+
+  describe("isAuth / isLogout", () => {
+    test("recognise session change requests", () => {
+      expect(isAuth({ auth: "token" })).toBe(true);
+      expect(isLogout({ logout: true })).toBe(true);
+    });
+
+    test("return false for other messages", () => {
+      expect(isAuth({ logout: true })).toBe(false);
+      expect(isLogout({ auth: "token" })).toBe(false);
+    });
+  });
+
+  describe("isSession / isSessionError", () => {
+    test("distinguish replies by err", () => {
+      expect(isSession({ session: 42 })).toBe(true);
+      expect(isSession({ session: null })).toBe(true);
+      expect(isSessionError({ session: 42 })).toBe(false);
+      const error = {
+        session: null,
+        err: "Invalid token",
+        code: "not_authenticated",
+      };
+      expect(isSessionError(error)).toBe(true);
+      expect(isSession(error)).toBe(false);
+    });
+  });
+
+  describe("isSub / isSubAck / isUnsub", () => {
+    test("distinguish requests from acks and errors", () => {
+      expect(isSub({ sub: "order.*" })).toBe(true);
+      expect(isSub({ sub: "order.*", since: { "order.created": 3 } })).toBe(
+        true,
+      );
+      expect(isSub({ sub: "order.*", seq: {} })).toBe(false);
+      expect(isSub({ sub: "order.*", err: "Forbidden" })).toBe(false);
+      expect(isSubAck({ sub: "order.*", seq: { "order.created": 3 } })).toBe(
+        true,
+      );
+      expect(isSubAck({ sub: "order.*" })).toBe(false);
+      expect(isUnsub({ unsub: "order.*" })).toBe(true);
+    });
+  });
+
+  describe("isSubError", () => {
+    test("returns true for a denied sub", () => {
+      expect(
+        isSubError({ sub: "admin.*", err: "Forbidden", code: "forbidden" }),
+      ).toBe(true);
+    });
+
+    test("returns false for a sub request", () => {
+      expect(isSubError({ sub: "admin.*" })).toBe(false);
+    });
+  });
+
+  describe("encodeBearer / decodeBearer", () => {
+    test("round-trips tokens with non-token characters", () => {
+      const token = "a b/c+d=";
+      const encoded = encodeBearer(token);
+      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeBearer(encoded)).toBe(token);
+    });
+
+    test("returns null for invalid input", () => {
+      expect(decodeBearer("!!!")).toBeNull();
+    });
+  });
+
   describe("isEvent", () => {
     test("returns true for valid event", () => {
       const event: Event = { ev: "user.created", data: { id: 1 } };
@@ -2,6 +2,47 @@
 
 // === Wire Messages ===
 
+// Hello: client → server, the first message on a socket that negotiated
+// a codec subprotocol
+export type Hello = {
+  hello: number;
+};
+
+// Welcome: server → client, answering hello once onOpen has run.
+// `profile` is the profile onOpen sent, if it sent one; `heartbeat` is
+// how often (ms) the client should ping.
+export type Welcome = {
+  welcome: number;
+  connectionId: string;
+  codec: string;
+  capabilities: string[];
+  heartbeat?: number;
+  profile?: unknown;
+};
+
+// Welcome Error: server → client (hello refused, then the socket closes)
+export type WelcomeError = ErrorFields & {
+  welcome: number;
+};
+
+// Ping: client → server; answered with a pong echoing the value (the
+// client's clock, for measuring latency)
+export type Ping = {
+  ping: number;
+};
+
+// Pong: server → client
+export type Pong = {
+  pong: number;
+};
+
+// Go Away: server → client, sent when the server starts shutting down.
+// Requests already running finish; new ones are refused with
+// `unavailable` until the socket closes (1001), so clients reconnect.
+export type GoAway = {
+  goaway: string;
+};
+
 // Command: client → server (write intent)
 export type Cmd = {
   cmd: string;
@@ -10,10 +51,24 @@ export type Cmd = {
   ack?: boolean;
 };
 
+// Validation Issue: one failed check against a command/query schema
+// (sent as `details.issues` on a validation_failed error)
+export type ValidationIssue = {
+  message: string;
+  path?: (string | number)[];
+};
+
+// Error fields: `err` is the message, `code`/`details` are optional so
+// older peers that only know `err: string` keep working
+export type ErrorFields = {
+  err: string;
+  code?: string;
+  details?: unknown;
+};
+
 // Command Error: server → client (only on failure)
-export type CmdError = {
+export type CmdError = ErrorFields & {
   cid: string;
-  err: string;
 };
 
 // Command Result: server → client (success with data)
@@ -22,11 +77,94 @@ export type CmdResult = {
   result: unknown;
 };
 
-// Query: client → server (read)
+// Query: client → server (read). With `credit` the server sends at most
+// that many rows, then waits for Credit messages granting more. `batch`
+// accepts rows in Rows chunks instead of one frame each.
 export type QueryMsg = {
   q: string;
   id: number;
   params?: object;
+  credit?: number;
+  batch?: boolean;
+};
+
+// Credit: client → server (allow a running query `credit` more rows)
+export type Credit = {
+  id: number;
+  credit: number;
+};
+
+// Live Query: client → server (run a query and keep its rows current)
+export type LiveMsg = {
+  live: string;
+  id: number;
+  params?: object;
+};
+
+// Row key for live queries
+export type LiveKey = string | number;
+
+// Live Diff: server → client. `reset` replaces every row (the first
+// snapshot, and again after reconnecting); otherwise rows are upserted
+// or deleted by key
+export type LiveDiff = {
+  id: number;
+  upsert?: [LiveKey, object][];
+  delete?: LiveKey[];
+  reset?: boolean;
+};
+
+// Cancel: client → server (stop a running or live query, no reply is sent)
+export type Cancel = {
+  cancel: number;
+};
+
+// Auth: client → server (switch identity on a live socket)
+export type Auth = {
+  auth: string;
+};
+
+// Logout: client → server (drop back to anonymous)
+export type Logout = {
+  logout: true;
+};
+
+// Session: server → client (reply to auth/logout, sent after the profile)
+export type Session = {
+  session: number | null;
+};
+
+// Session Error: server → client (token rejected, identity unchanged)
+export type SessionError = ErrorFields & Session;
+
+// Subscribe: client → server. `since` maps channels to the last seq the
+// client saw, asking for the events it missed; channels matching the
+// pattern but absent from `since` are treated as never seen. `node` is
+// the server those seqs came from.
+export type Sub = {
+  sub: string;
+  since?: Record<string, number>;
+  node?: string;
+};
+
+// Unsubscribe: client → server
+export type Unsub = {
+  unsub: string;
+};
+
+// Subscribe Ack: server → client (current seq of each matching channel
+// on server `node`, as seqs are counted per server; `resync` when missed
+// events could not be replayed and state should be re-queried)
+export type SubAck = {
+  sub: string;
+  seq: Record<string, number>;
+  node?: string;
+  resync?: boolean;
+};
+
+// Subscribe Error: server → client (sub denied by auth.canSubscribe)
+export type SubError = ErrorFields & {
+  sub: string;
 };
 
 // Query Row: server → client (streamed)
@@ -35,19 +173,66 @@ export type Row = {
   row: object;
 };
 
+// Query Rows: server → client (several streamed rows in one frame)
+export type Rows = {
+  id: number;
+  rows: object[];
+};
+
+// Batch: several messages sent in one frame, handled in order
+export type Batch = unknown[];
+
 // Query End: server → client (stream complete)
 export type End = {
   id: number;
 };
 
-// Event: server → client (broadcast)
+// Query Error: server → client (stream failed)
+export type QueryError = ErrorFields & {
+  id: number;
+};
+
+// Event: server → client (broadcast). Emitted events carry a seq that
+// increases by one per channel; targeted sends have none.
 export type Event = {
   ev: string;
   data: object;
+  seq?: number;
 };
 
 // === Type Guards ===
 
+export function isHello(msg: unknown): msg is Hello {
+  return typeof msg === "object" && msg !== null && "hello" in msg;
+}
+
+export function isWelcome(msg: unknown): msg is Welcome {
+  return (
+    typeof msg === "object" &&
+    msg !== null &&
+    "welcome" in msg &&
+    !("err" in msg)
+  );
+}
+
+export function isWelcomeError(msg: unknown): msg is WelcomeError {
+  return (
+    typeof msg === "object" && msg !== null && "welcome" in msg && "err" in msg
+  );
+}
+
+export function isPing(msg: unknown): msg is Ping {
+  return typeof msg === "object" && msg !== null && "ping" in msg;
+}
+
+export function isPong(msg: unknown): msg is Pong {
+  return typeof msg === "object" && msg !== null && "pong" in msg;
+}
+
+export function isGoAway(msg: unknown): msg is GoAway {
+  return typeof msg === "object" && msg !== null && "goaway" in msg;
+}
+
 export function isCmd(msg: unknown): msg is Cmd {
   return typeof msg === "object" && msg !== null && "cmd" in msg;
 }
@@ -56,6 +241,82 @@ export function isQuery(msg: unknown): msg is QueryMsg {
   return typeof msg === "object" && msg !== null && "q" in msg;
 }
 
+export function isLive(msg: unknown): msg is LiveMsg {
+  return typeof msg === "object" && msg !== null && "live" in msg;
+}
+
+export function isLiveDiff(msg: unknown): msg is LiveDiff {
+  return (
+    typeof msg === "object" &&
+    msg !== null &&
+    "id" in msg &&
+    ("upsert" in msg || "delete" in msg || "reset" in msg)
+  );
+}
+
+export function isCredit(msg: unknown): msg is Credit {
+  return (
+    typeof msg === "object" &&
+    msg !== null &&
+    "credit" in msg &&
+    "id" in msg &&
+    !("q" in msg)
+  );
+}
+
+export function isCancel(msg: unknown): msg is Cancel {
+  return typeof msg === "object" && msg !== null && "cancel" in msg;
+}
+
+export function isAuth(msg: unknown): msg is Auth {
+  return typeof msg === "object" && msg !== null && "auth" in msg;
+}
+
+export function isLogout(msg: unknown): msg is Logout {
+  return typeof msg === "object" && msg !== null && "logout" in msg;
+}
+
+export function isSession(msg: unknown): msg is Session {
+  return (
+    typeof msg === "object" &&
+    msg !== null &&
+    "session" in msg &&
+    !("err" in msg)
+  );
+}
+
+export function isSessionError(msg: unknown): msg is SessionError {
+  return (
+    typeof msg === "object" && msg !== null && "session" in msg && "err" in msg
+  );
+}
+
+export function isSub(msg: unknown): msg is Sub {
+  return (
+    typeof msg === "object" &&
+    msg !== null &&
+    "sub" in msg &&
+    !("seq" in msg) &&
+    !("err" in msg)
+  );
+}
+
+export function isUnsub(msg: unknown): msg is Unsub {
+  return typeof msg === "object" && msg !== null && "unsub" in msg;
+}
+
+export function isSubAck(msg: unknown): msg is SubAck {
+  return (
+    typeof msg === "object" && msg !== null && "sub" in msg && "seq" in msg
+  );
+}
+
+export function isSubError(msg: unknown): msg is SubError {
+  return (
+    typeof msg === "object" && msg !== null && "sub" in msg && "err" in msg
+  );
+}
+
 export function isCmdError(msg: unknown): msg is CmdError {
   return (
     typeof msg === "object" && msg !== null && "cid" in msg && "err" in msg
@@ -72,22 +333,61 @@ export function isRow(msg: unknown): msg is Row {
   return typeof msg === "object" && msg !== null && "id" in msg && "row" in msg;
 }
 
+export function isRows(msg: unknown): msg is Rows {
+  return (
+    typeof msg === "object" && msg !== null && "id" in msg && "rows" in msg
+  );
+}
+
+export function isBatch(msg: unknown): msg is Batch {
+  return Array.isArray(msg);
+}
+
 export function isEnd(msg: unknown): msg is End {
   return (
     typeof msg === "object" &&
     msg !== null &&
     "id" in msg &&
     !("row" in msg) &&
-    !("err" in msg)
+    !("rows" in msg) &&
+    !("err" in msg) &&
+    !isLiveDiff(msg)
   );
 }
 
+export function isQueryError(msg: unknown): msg is QueryError {
+  return typeof msg === "object" && msg !== null && "id" in msg && "err" in msg;
+}
+
 export function isEvent(msg: unknown): msg is Event {
   return typeof msg === "object" && msg !== null && "ev" in msg;
 }
 
 // === Utility ===
 
+// Version of the protocol in hello and welcome; peers refuse others
+export const PROTOCOL_VERSION = 1;
+
+// WebSocket subprotocol of clients from before the handshake. Current
+// clients offer a codec's `seiro.<name>` instead (see codec.ts).
+export const SUBPROTOCOL = "seiro";
+
+// Subprotocol prefix carrying a token at connect, off the URL
+export const BEARER_PREFIX = "seiro.bearer.";
+
+// Subprotocols only allow token characters, so base64url the value
+export function encodeBearer(token: string): string {
+  return btoa(token).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeBearer(value: string): string | null {
+  try {
+    return atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  } catch {
+    return null;
+  }
+}
+
 export function encode(msg: object): string {
   return JSON.stringify(msg);
 }
@@ -96,6 +396,7 @@ export function decode(line: string): unknown {
   return JSON.parse(line);
 }
 
+// Unguessable, as anonymous commands are deduplicated by cid alone
 export function cid(): string {
-  return Math.random().toString(36).slice(2, 10);
+  return crypto.randomUUID();
 }
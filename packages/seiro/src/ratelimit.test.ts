@@ -0,0 +1,123 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { createRateLimiter } from "./ratelimit";
+import { createServer } from "./server";
+import type { Command } from "./types";
+
+describe("rate limiter", () => {
+  test("allows up to burst then rejects", () => {
+    const limiter = createRateLimiter({ perConnection: { rate: 1, burst: 3 } });
+    expect(limiter.check("a", "c1", null)).toBe(0);
+    expect(limiter.check("a", "c1", null)).toBe(0);
+    expect(limiter.check("a", "c1", null)).toBe(0);
+    expect(limiter.check("a", "c1", null)).toBeGreaterThan(0);
+  });
+
+  test("retry-after reflects the refill rate", () => {
+    const limiter = createRateLimiter({ perConnection: { rate: 10 } });
+    for (let i = 0; i < 10; i++) limiter.check("a", "c1", null);
+    const retryAfter = limiter.check("a", "c1", null);
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(100);
+  });
+
+  test("refills over time", async () => {
+    const limiter = createRateLimiter({ perConnection: { rate: 100, burst: 1 } });
+    expect(limiter.check("a", "c1", null)).toBe(0);
+    expect(limiter.check("a", "c1", null)).toBeGreaterThan(0);
+    await new Promise((r) => setTimeout(r, 20));
+    expect(limiter.check("a", "c1", null)).toBe(0);
+  });
+
+  test("connections have separate buckets", () => {
+    const limiter = createRateLimiter({ perConnection: { rate: 1 } });
+    expect(limiter.check("a", "c1", null)).toBe(0);
+    expect(limiter.check("a", "c2", null)).toBe(0);
+    expect(limiter.check("a", "c1", null)).toBeGreaterThan(0);
+  });
+
+  test("user limit spans connections", () => {
+    const limiter = createRateLimiter({ perUser: { rate: 1 } });
+    expect(limiter.check("a", "c1", 7)).toBe(0);
+    expect(limiter.check("a", "c2", 7)).toBeGreaterThan(0);
+    expect(limiter.check("a", "c3", null)).toBe(0);
+  });
+
+  test("named limits apply only to that name", () => {
+    const limiter = createRateLimiter({ names: { "auth.login": { rate: 1 } } });
+    expect(limiter.check("auth.login", "c1", null)).toBe(0);
+    expect(limiter.check("auth.login", "c1", null)).toBeGreaterThan(0);
+    expect(limiter.check("other", "c1", null)).toBe(0);
+  });
+
+  test("names are not looked up on the prototype", () => {
+    const limiter = createRateLimiter({ names: {} });
+    for (const name of ["constructor", "__proto__", "toString"]) {
+      expect(limiter.check(name, "c1", null)).toBe(0);
+      expect(limiter.check(name, "c1", null)).toBe(0);
+    }
+  });
+
+  test("global limit is shared", () => {
+    const limiter = createRateLimiter({ global: { rate: 1 } });
+    expect(limiter.check("a", "c1", 1)).toBe(0);
+    expect(limiter.check("a", "c2", 2)).toBeGreaterThan(0);
+  });
+
+  test("rejections do not spend tokens from other buckets", () => {
+    const limiter = createRateLimiter({
+      perConnection: { rate: 1, burst: 2 },
+      names: { slow: { rate: 1 } },
+    });
+    expect(limiter.check("slow", "c1", null)).toBe(0);
+    expect(limiter.check("slow", "c1", null)).toBeGreaterThan(0);
+    expect(limiter.check("fast", "c1", null)).toBe(0);
+  });
+
+  test("counts consecutive rejections", () => {
+    const limiter = createRateLimiter({ perConnection: { rate: 1 } });
+    limiter.check("a", "c1", null);
+    limiter.check("a", "c1", null);
+    limiter.check("a", "c1", null);
+    expect(limiter.strikes("c1")).toBe(2);
+    limiter.forget("c1");
+    expect(limiter.strikes("c1")).toBe(0);
+  });
+});
+
+type TestCommands = {
+  "test.ping": Command<void, { pong: boolean }>;
+};
+
+const PORT = 3459;
+
+describe("server rate limiting", () => {
+  const serverApi = createServer<TestCommands>({
+    port: PORT,
+    rateLimit: { perConnection: { rate: 1, burst: 2 }, closeAfter: 2 },
+  });
+  serverApi.command("test.ping", async () => ({ pong: true }));
+  const started = serverApi.start();
+
+  afterAll(async () => {
+    (await started).stop(true);
+  });
+
+  test("rejects with rate_limited and closes abusive sockets", async () => {
+    await started;
+    const ws = new WebSocket(`ws://localhost:${PORT}/ws`);
+    const replies: { err?: string; code?: string; details?: unknown }[] = [];
+    ws.onmessage = (e) => replies.push(JSON.parse(e.data as string));
+    const closed = new Promise<CloseEvent>((r) => (ws.onclose = r));
+    await new Promise((r) => (ws.onopen = r));
+
+    for (let i = 0; i < 4; i++) {
+      ws.send(JSON.stringify({ cmd: "test.ping", cid: `p${i}`, data: {}, ack: true }));
+    }
+    const event = await closed;
+
+    const limited = replies.filter((r) => r.code === "rate_limited");
+    expect(limited.length).toBe(2);
+    expect(limited[0]?.details).toEqual({ retryAfter: expect.any(Number) });
+    expect(event.code).toBe(1008);
+  });
+});
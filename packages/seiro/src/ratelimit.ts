@@ -0,0 +1,116 @@
+// Token-bucket rate limiting for commands and queries
+
+// `rate` tokens are added per second, up to `burst` (defaults to rate)
+export type RateLimit = {
+  rate: number;
+  burst?: number;
+};
+
+export type RateLimitConfig = {
+  // Shared by every connection
+  global?: RateLimit;
+  // Per socket
+  perConnection?: RateLimit;
+  // Per authenticated user, across all their sockets
+  perUser?: RateLimit;
+  // Per command/query name, counted per user (or per socket when anonymous)
+  names?: Record<string, RateLimit>;
+  // Close a socket after this many consecutive rejected messages
+  closeAfter?: number;
+};
+
+type Bucket = { tokens: number; updated: number; rate: number; burst: number };
+
+export type RateLimiter = {
+  // Returns 0 when allowed, otherwise milliseconds until it would be
+  check(name: string, connectionId: string, userId: number | null): number;
+  // Consecutive rejections for a connection, reset by any allowed message
+  strikes(connectionId: string): number;
+  forget(connectionId: string): void;
+};
+
+const MAX_BUCKETS = 10_000;
+
+export function createRateLimiter(config: RateLimitConfig): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const rejected = new Map<string, number>();
+
+  function bucket(key: string, limit: RateLimit, now: number): Bucket {
+    let b = buckets.get(key);
+    if (!b) {
+      const burst = limit.burst ?? limit.rate;
+      b = { tokens: burst, updated: now, rate: limit.rate, burst };
+      buckets.set(key, b);
+    }
+    b.tokens = Math.min(
+      b.burst,
+      b.tokens + ((now - b.updated) / 1000) * b.rate,
+    );
+    b.updated = now;
+    return b;
+  }
+
+  // A full bucket behaves like a missing one, so it can be dropped
+  function prune(now: number) {
+    if (buckets.size < MAX_BUCKETS) return;
+    for (const [key, b] of buckets) {
+      if (b.tokens + ((now - b.updated) / 1000) * b.rate >= b.burst) {
+        buckets.delete(key);
+      }
+    }
+  }
+
+  function check(
+    name: string,
+    connectionId: string,
+    userId: number | null,
+  ): number {
+    const now = Date.now();
+    prune(now);
+    const principal =
+      userId !== null ? `user:${userId}` : `conn:${connectionId}`;
+    const applicable: Bucket[] = [];
+    if (config.global) applicable.push(bucket("global", config.global, now));
+    if (config.perConnection) {
+      applicable.push(
+        bucket(`conn:${connectionId}`, config.perConnection, now),
+      );
+    }
+    if (config.perUser && userId !== null) {
+      applicable.push(bucket(`user:${userId}`, config.perUser, now));
+    }
+    // Names come from clients; "constructor" mustn't find Object's
+    const named =
+      config.names && Object.hasOwn(config.names, name)
+        ? config.names[name]
+        : undefined;
+    if (named) applicable.push(bucket(`${name}:${principal}`, named, now));
+
+    // Only spend tokens when every bucket has one
+    let retryAfter = 0;
+    for (const b of applicable) {
+      if (b.tokens < 1) {
+        retryAfter = Math.max(retryAfter, ((1 - b.tokens) / b.rate) * 1000);
+      }
+    }
+    if (retryAfter > 0) {
+      rejected.set(connectionId, (rejected.get(connectionId) ?? 0) + 1);
+      return Math.ceil(retryAfter);
+    }
+    for (const b of applicable) b.tokens -= 1;
+    rejected.delete(connectionId);
+    return 0;
+  }
+
+  return {
+    check,
+    strikes: (connectionId) => rejected.get(connectionId) ?? 0,
+    forget(connectionId) {
+      rejected.delete(connectionId);
+      buckets.delete(`conn:${connectionId}`);
+      for (const name of Object.keys(config.names ?? {})) {
+        buckets.delete(`${name}:conn:${connectionId}`);
+      }
+    },
+  };
+}
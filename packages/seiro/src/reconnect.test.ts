@@ -0,0 +1,273 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createServer } from "./server";
+import { createClient, type ClientErrorInfo } from "./client";
+import type { SeiroError } from "./errors";
+import { createMemoryOutbox } from "./outbox";
+import type { Command } from "./types";
+import { until, sleep } from "./test-helpers";
+
+type TestCommands = {
+  "test.hang": Command<void, void>;
+  "test.record": Command<{ value: number }, { value: number }>;
+};
+
+type TestEvents = {
+  test_event: { value: number };
+};
+
+const PORT = 3457;
+const WS_URL = `ws://localhost:${PORT}/ws`;
+const fast = { initialDelay: 20, maxDelay: 50 };
+
+describe("client reconnection", () => {
+  const serverApi = createServer<TestCommands, {}, TestEvents>({ port: PORT });
+  const recorded: number[] = [];
+  serverApi.command("test.hang", () => new Promise(() => {}));
+  serverApi.command("test.record", async (data) => {
+    recorded.push(data.value);
+    return data;
+  });
+  serverApi.onOpen(async (ctx) => {
+    ctx.send({ profile: null });
+  });
+
+  let server: Awaited<ReturnType<typeof serverApi.start>>;
+
+  beforeEach(async () => {
+    recorded.length = 0;
+    server = await serverApi.start();
+  });
+
+  afterEach(() => {
+    server.stop(true);
+  });
+
+  test("status reflects the connection lifecycle", async () => {
+    const client = createClient<TestCommands, {}, TestEvents>(WS_URL);
+    expect(client.status.value).toBe("closed");
+
+    const connecting = client.connect();
+    expect(client.status.value).toBe("connecting");
+    await connecting;
+    expect(client.status.value).toBe("open");
+
+    client.close();
+    await until(() => client.status.value === "closed");
+  });
+
+  test("without reconnect the client stays closed", async () => {
+    const client = createClient<TestCommands, {}, TestEvents>(WS_URL);
+    await client.connect();
+
+    server.stop(true);
+    await until(() => client.status.value === "closed");
+    server = await serverApi.start();
+    await sleep(100);
+
+    expect(client.status.value).toBe("closed");
+  });
+
+  test("reconnects and restores subscriptions", async () => {
+    const client = createClient<TestCommands, {}, TestEvents>(WS_URL, {
+      reconnect: fast,
+    });
+    await client.connect();
+    const received: number[] = [];
+    client.on("test_event", (e) => received.push(e.value));
+    client.subscribe();
+
+    server.stop(true);
+    await until(() => client.status.value === "reconnecting");
+    server = await serverApi.start();
+    await until(() => client.status.value === "open");
+    await sleep(50);
+
+    serverApi.emit("test_event", { value: 7 });
+    await until(() => received.length > 0);
+
+    expect(received).toEqual([7]);
+    client.close();
+  });
+
+  test("in-flight commands fail with a disconnected error", async () => {
+    const client = createClient<TestCommands, {}, TestEvents>(WS_URL, {
+      reconnect: fast,
+    });
+    await client.connect();
+
+    const failed = new Promise<SeiroError>((resolve) => {
+      client.cmd("test.hang", undefined as unknown as void, {
+        onError: (_err, error) => resolve(error),
+      });
+    });
+    await sleep(20);
+    server.stop(true);
+
+    expect((await failed).code).toBe("disconnected");
+    client.close();
+  });
+
+  test("call rejects when the connection drops", async () => {
+    const client = createClient<TestCommands, {}, TestEvents>(WS_URL);
+    await client.connect();
+
+    const pending = client.call("test.hang", undefined as unknown as void);
+    await sleep(20);
+    server.stop(true);
+
+    const error = (await pending.catch((e) => e)) as SeiroError;
+    expect(error.code).toBe("disconnected");
+  });
+
+  test("call rejects at once when not connected", async () => {
+    const client = createClient<TestCommands, {}, TestEvents>(WS_URL);
+
+    const error = (await client
+      .call("test.record", { value: 1 }, { timeout: 0 })
+      .catch((e) => e)) as SeiroError;
+    expect(error.code).toBe("disconnected");
+    expect(recorded).toEqual([]);
+  });
+
+  test("sending while the socket is connecting doesn't throw", async () => {
+    const client = createClient<TestCommands, {}, TestEvents>(WS_URL, {
+      batch: true,
+    });
+    const connecting = client.connect();
+    const errors: string[] = [];
+    client.cmd("test.record", { value: 1 }, { onError: (e) => errors.push(e) });
+    client.cmd("test.record", { value: 2 });
+    await sleep(0);
+    await connecting;
+    await sleep(20);
+
+    expect(errors).toEqual(["Not connected"]);
+    expect(recorded).toEqual([]);
+    client.close();
+  });
+
+  test("close() stops reconnecting", async () => {
+    const client = createClient<TestCommands, {}, TestEvents>(WS_URL, {
+      reconnect: fast,
+    });
+    await client.connect();
+
+    server.stop(true);
+    await until(() => client.status.value === "reconnecting");
+    client.close();
+    server = await serverApi.start();
+    await sleep(150);
+
+    expect(client.status.value).toBe("closed");
+  });
+
+  test("gives up after maxAttempts", async () => {
+    const client = createClient<TestCommands, {}, TestEvents>(WS_URL, {
+      reconnect: { ...fast, maxAttempts: 2 },
+    });
+    await client.connect();
+
+    server.stop(true);
+    await until(() => client.status.value === "closed");
+    server = await serverApi.start();
+    await sleep(150);
+
+    expect(client.status.value).toBe("closed");
+  });
+
+  describe("outbox", () => {
+    test("commands issued before connecting are replayed in order", async () => {
+      const client = createClient<TestCommands, {}, TestEvents>(WS_URL, {
+        outbox: true,
+      });
+
+      const acked = new Promise((resolve) => {
+        client.cmd("test.record", { value: 1 });
+        client.cmd("test.record", { value: 2 }, { onSuccess: resolve });
+      });
+      expect(client.pending.value.map((e) => e.data)).toEqual([
+        { value: 1 },
+        { value: 2 },
+      ]);
+
+      await client.connect();
+      await acked;
+
+      expect(recorded).toEqual([1, 2]);
+      expect(client.pending.value).toEqual([]);
+      client.close();
+    });
+
+    test("commands survive a dropped connection", async () => {
+      const client = createClient<TestCommands, {}, TestEvents>(WS_URL, {
+        reconnect: fast,
+        outbox: true,
+      });
+      await client.connect();
+
+      server.stop(true);
+      await until(() => client.status.value === "reconnecting");
+
+      const acked = new Promise<{ value: number }>((resolve, reject) => {
+        client.cmd("test.record", { value: 3 }, {
+          onSuccess: resolve,
+          onError: reject,
+        });
+      });
+      expect(client.pending.value.length).toBe(1);
+
+      server = await serverApi.start();
+
+      expect(await acked).toEqual({ value: 3 });
+      expect(recorded).toEqual([3]);
+      expect(client.pending.value).toEqual([]);
+      client.close();
+    });
+
+    test("stored entries are replayed by a new client", async () => {
+      const store = createMemoryOutbox();
+      const offline = createClient<TestCommands, {}, TestEvents>(WS_URL, {
+        outbox: store,
+      });
+      offline.cmd("test.record", { value: 4 }, {});
+      await sleep(10);
+      const stored = await store.load();
+      expect(stored.map((e) => e.cid)).toEqual(
+        offline.pending.value.map((e) => e.cid),
+      );
+
+      const client = createClient<TestCommands, {}, TestEvents>(WS_URL, {
+        outbox: store,
+      });
+      await client.connect();
+      await until(() => client.pending.value.length === 0);
+
+      expect(recorded).toEqual([4]);
+      expect(await store.load()).toEqual([]);
+      client.close();
+    });
+
+    test("a failing store is reported and commands still run", async () => {
+      const broken = () => Promise.reject(new Error("Quota exceeded"));
+      const client = createClient<TestCommands, {}, TestEvents>(WS_URL, {
+        outbox: { load: broken, put: broken, delete: broken },
+      });
+      const errors: ClientErrorInfo[] = [];
+      client.onError((info) => errors.push(info));
+      await client.connect();
+
+      expect(await client.call("test.record", { value: 5 })).toEqual({
+        value: 5,
+      });
+      // load, put and delete each failed
+      await until(() => errors.length === 3);
+      expect(errors.map((info) => info.source)).toEqual([
+        "outbox",
+        "outbox",
+        "outbox",
+      ]);
+      expect(errors[0]!.error.message).toBe("Quota exceeded");
+      client.close();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createServer } from "./server";
+import { createClient } from "./client";
+import { until, settle, greeted } from "./test-helpers";
+
+type TestEvents = {
+  "order.created": { id: number };
+  "order.shipped": { id: number };
+  "order.cancelled": { id: number };
+  "audit.entry": { id: number };
+};
+
+const PORT = 3463;
+const WS_URL = `ws://localhost:${PORT}/ws`;
+const fast = { initialDelay: 20, maxDelay: 50 };
+
+describe("event replay", () => {
+  const serverApi = createServer<{}, {}, TestEvents>({
+    port: PORT,
+    retention: { size: 3 },
+  });
+  serverApi.onOpen(async (ctx) => {
+    ctx.send({ profile: null });
+  });
+
+  let server: Awaited<ReturnType<typeof serverApi.start>>;
+
+  beforeEach(async () => {
+    server = await serverApi.start();
+  });
+
+  afterEach(() => {
+    server.stop(true);
+  });
+
+  // Drop the connection, emit while it is down, then let it come back
+  async function outage(
+    client: ReturnType<typeof createClient<{}, {}, TestEvents>>,
+    whileDown: () => void,
+  ) {
+    server.stop(true);
+    await until(() => client.status.value === "reconnecting");
+    whileDown();
+    server = await serverApi.start();
+    await until(() => client.status.value === "open");
+    await settle();
+  }
+
+  test("events carry a seq per channel and subs are acked", async () => {
+    const { ws, messages } = await greeted(WS_URL);
+    ws.send(JSON.stringify({ sub: "audit.*" }));
+    await settle();
+
+    serverApi.emit("audit.entry", { id: 1 });
+    serverApi.emit("audit.entry", { id: 2 });
+    await settle();
+
+    expect(messages).toEqual([
+      { sub: "audit.*", seq: {}, node: expect.any(String) },
+      { ev: "audit.entry", data: { id: 1 }, seq: 1 },
+      { ev: "audit.entry", data: { id: 2 }, seq: 2 },
+    ]);
+    ws.close();
+  });
+
+  test("reconnecting replays missed events in emit order", async () => {
+    const client = createClient<{}, {}, TestEvents>(WS_URL, {
+      reconnect: fast,
+    });
+    await client.connect();
+    const events: unknown[] = [];
+    client.on("order.*" as "order.created", (data) => events.push(data));
+    client.subscribe();
+    await settle();
+    serverApi.emit("order.created", { id: 1 });
+    await settle();
+
+    await outage(client, () => {
+      serverApi.emit("order.created", { id: 2 });
+      serverApi.emit("order.shipped", { id: 2 });
+    });
+
+    expect(events).toEqual([{ id: 1 }, { id: 2 }, { id: 2 }]);
+    client.close();
+  });
+
+  test("a gap larger than the retention buffer asks for a resync", async () => {
+    const client = createClient<{}, {}, TestEvents>(WS_URL, {
+      reconnect: fast,
+    });
+    await client.connect();
+    const events: unknown[] = [];
+    const resynced: string[] = [];
+    client.on("order.cancelled", (data) => events.push(data));
+    client.onResync((pattern) => resynced.push(pattern));
+    client.subscribe();
+    await settle();
+
+    await outage(client, () => {
+      for (let id = 1; id <= 5; id++) {
+        serverApi.emit("order.cancelled", { id });
+      }
+    });
+
+    expect(events).toEqual([]);
+    expect(resynced).toEqual(["order.cancelled"]);
+    client.close();
+  });
+
+  test("seqs ahead of the server ask for a resync", async () => {
+    const { ws, messages } = await greeted(WS_URL);
+    ws.send(JSON.stringify({ sub: "audit.entry", since: { "audit.entry": 999 } }));
+    await settle();
+
+    expect(messages).toContainEqual({
+      sub: "audit.entry",
+      seq: { "audit.entry": 2 },
+      node: expect.any(String),
+      resync: true,
+    });
+    ws.close();
+  });
+
+  test("seqs from another node ask for a resync", async () => {
+    const { ws, messages } = await greeted(WS_URL);
+    ws.send(JSON.stringify({ sub: "audit.entry" }));
+    await settle();
+    const { node } = messages[0] as { node: string };
+
+    ws.send(
+      JSON.stringify({
+        sub: "audit.entry",
+        since: { "audit.entry": 1 },
+        node: "another-node",
+      }),
+    );
+    ws.send(
+      JSON.stringify({ sub: "audit.entry", since: { "audit.entry": 2 }, node }),
+    );
+    await settle();
+
+    expect(messages.slice(1)).toEqual([
+      {
+        sub: "audit.entry",
+        seq: { "audit.entry": 2 },
+        node,
+        resync: true,
+      },
+      { sub: "audit.entry", seq: { "audit.entry": 2 }, node },
+    ]);
+    ws.close();
+  });
+});
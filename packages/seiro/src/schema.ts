@@ -0,0 +1,69 @@
+// Standard Schema support for validating command data and query params.
+// The interface is copied from https://standardschema.dev so zod, valibot,
+// arktype etc. work without seiro depending on any of them.
+
+import type { ValidationIssue } from "./protocol";
+
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+}
+
+export type ValidationResult<T> =
+  { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+// Run a schema and normalise its issues into wire-friendly objects
+export async function validate<T>(
+  schema: StandardSchemaV1<unknown, T>,
+  value: unknown,
+): Promise<ValidationResult<T>> {
+  const result = await schema["~standard"].validate(value);
+  if (result.issues) {
+    return { ok: false, issues: result.issues.map(toIssue) };
+  }
+  return { ok: true, value: result.value };
+}
+
+function toIssue(issue: StandardSchemaV1.Issue): ValidationIssue {
+  if (!issue.path?.length) return { message: issue.message };
+  const path = issue.path.map((segment) => {
+    const key = typeof segment === "object" ? segment.key : segment;
+    return typeof key === "number" ? key : String(key);
+  });
+  return { message: issue.message, path };
+}
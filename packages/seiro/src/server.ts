@@ -1,6 +1,51 @@
-import type { ServerWebSocket } from "bun";
-import { isCmd, isQuery, encode, decode } from "./protocol";
+import type { Server as BunServer, ServerWebSocket } from "bun";
+import {
+  isCmd,
+  isQuery,
+  isCancel,
+  isCredit,
+  isBatch,
+  isAuth,
+  isLogout,
+  isSub,
+  isUnsub,
+  isLive,
+  isHello,
+  isPing,
+  decodeBearer,
+  SUBPROTOCOL,
+  BEARER_PREFIX,
+  PROTOCOL_VERSION,
+  type Cmd,
+  type QueryMsg,
+  type LiveMsg,
+  type LiveKey,
+  type LiveDiff,
+  type Hello,
+} from "./protocol";
 import { serverLogger, logWsAccess } from "./logger";
+import { validate, type StandardSchemaV1 } from "./schema";
+import { SeiroError, ErrorCodes, toWire } from "./errors";
+import {
+  createMemoryIdempotencyStore,
+  type IdempotencyConfig,
+  type StoredResponse,
+} from "./idempotency";
+export type { RateLimit, RateLimitConfig } from "./ratelimit";
+export {
+  createMemoryBackplane,
+  createPostgresBackplane,
+  type Backplane,
+  type BackplaneMessage,
+  type PostgresNotifier,
+} from "./backplane";
+import type { Backplane, BackplaneMessage } from "./backplane";
+export {
+  createNotifyBridge,
+  type NotifyBridgeOptions,
+  type PostgresListener,
+  type FetchRef,
+} from "./notify";
 
 // Re-export logger utilities for consumers
 export {
@@ -16,6 +61,35 @@ export {
   logWsAccess,
   type Logger,
 } from "./logger";
+export type { StandardSchemaV1 } from "./schema";
+export { SeiroError, ErrorCodes, type ErrorInfo } from "./errors";
+export {
+  createMemoryIdempotencyStore,
+  createSqliteIdempotencyStore,
+  createPostgresIdempotencyStore,
+  type IdempotencyStore,
+  type IdempotencyConfig,
+  type StoredResponse,
+} from "./idempotency";
+import { createRateLimiter, type RateLimitConfig } from "./ratelimit";
+import { createMetrics, type Gauges, type Outcome } from "./metrics";
+export type { Outcome } from "./metrics";
+import {
+  jsonCodec,
+  msgpackCodec,
+  codecProtocol,
+  encodeMsgpack,
+  type Codec,
+  type Frame,
+} from "./codec";
+export {
+  jsonCodec,
+  msgpackCodec,
+  encodeMsgpack,
+  decodeMsgpack,
+  type Codec,
+  type Frame,
+} from "./codec";
 import type {
   CommandsDef,
   QueriesDef,
@@ -26,31 +100,131 @@ import type {
   EventData,
 } from "./types";
 
-type ClientData = {
+// The authenticated identity behind a connection
+export type Principal = {
+  id: number;
+  roles?: string[];
+  claims?: Record<string, unknown>;
+};
+
+export type ClientData = {
   id: string;
   userId: number | null;
+  principal: Principal | null;
   subscriptions: Set<string>;
+  rooms: Set<string>;
+  queries: Map<number, AbortController>;
+  // Negotiated from the client's subprotocol; JSON unless it asked
+  codec: Codec;
 };
 
 type WS = ServerWebSocket<ClientData>;
 
+// Narrow who receives an emitted event. `to` limits delivery to these
+// user ids; `filter` and `transform` run once per matching recipient,
+// and a transform returning undefined skips that recipient. (Method
+// syntax keeps a Server<C, Q, E> assignable to a narrower Server type.)
+// Functions can't cross a backplane: emits with a filter or transform
+// reach this node's sockets only, as do `local` ones.
+export type EmitOptions<T> = {
+  to?: number | number[];
+  local?: boolean;
+  filter?(client: ClientData): boolean;
+  transform?(payload: T, client: ClientData): T | undefined;
+};
+
+// Where a targeted event goes
+type Route = { user: number } | { connection: string } | { room: string };
+
+// Events sent straight to a set of sockets, whatever they subscribe to
+export type Target<E extends EventsDef> = {
+  send: <K extends keyof E>(event: K, data: EventData<E, K>) => void;
+};
+
 export type CommandContext<E extends EventsDef> = {
   userId: number | null;
+  principal: Principal | null;
+  connectionId: string;
   setUserId: (id: number) => void;
+  setPrincipal: (principal: Principal) => void;
   send: <K extends keyof E>(event: K, data: EventData<E, K>) => void;
+  // Add or remove this socket from a named room (see server.toRoom)
+  join: (room: string) => void;
+  leave: (room: string) => void;
+  state: Record<string, unknown>;
 };
 
 export type OpenContext = {
   userId: number | null;
+  principal: Principal | null;
+  connectionId: string;
   send: (data: unknown) => void;
+  join: (room: string) => void;
+  leave: (room: string) => void;
 };
 
 type OpenHandler = (ctx: OpenContext) => Promise<void>;
 
+// Passed to onCommand and onQuery hooks once a request has finished.
+// `duration` is in milliseconds; `error` is set when it failed.
+export type RequestInfo = {
+  name: string;
+  client: ClientData;
+  duration: number;
+  outcome: Outcome;
+  error?: SeiroError;
+};
+
+// Live queries report when their first snapshot has been sent
+export type QueryInfo = RequestInfo & {
+  rows: number;
+  live: boolean;
+};
+
+// An emit() on this server; `recipients` counts this node's sockets
+export type EmitInfo = {
+  channel: string;
+  recipients: number;
+  duration: number;
+};
+
+// `duration` is how long the connection was open, in milliseconds
+export type DisconnectInfo = {
+  client: ClientData;
+  code: number;
+  reason: string;
+  duration: number;
+};
+
+type Hook<T> = (info: T) => void;
+
 export type QueryContext = {
   userId: number | null;
+  principal: Principal | null;
+  connectionId: string;
+  state: Record<string, unknown>;
+  // Aborted when the client cancels the query or disconnects
+  signal: AbortSignal;
 };
 
+// Middleware wraps command and query dispatch. Await next() to continue;
+// throw to short-circuit with an error, or return without calling next()
+// to skip the handler (commands ack with null, queries end with no rows).
+export type MiddlewareContext<E extends EventsDef> = {
+  type: "cmd" | "query";
+  name: string;
+  payload: unknown;
+  client: ClientData;
+  context: CommandContext<E> | QueryContext;
+  state: Record<string, unknown>;
+  result?: unknown;
+};
+
+export type Middleware<E extends EventsDef = EventsDef> = (
+  ctx: MiddlewareContext<E>,
+  next: () => Promise<void>,
+) => Promise<void> | void;
+
 type CommandHandler<
   C extends CommandsDef,
   K extends keyof C,
@@ -62,46 +236,528 @@ type QueryHandler<Q extends QueriesDef, K extends keyof Q> = (
   ctx: QueryContext,
 ) => AsyncIterable<QueryRow<Q, K>>;
 
+// Access guards run after validation and before the handler. With
+// `roles` the principal needs at least one of them; `authorize` can
+// inspect the payload. Either one implies authentication.
+type Guard<P> = {
+  roles?: string[];
+  authorize?: (principal: Principal, payload: P) => boolean | Promise<boolean>;
+};
+
+export type CommandOptions<C extends CommandsDef, K extends keyof C> = Guard<
+  CommandData<C, K>
+> & {
+  schema?: StandardSchemaV1<unknown, CommandData<C, K>>;
+};
+
+// Keep a query's rows current for `client.live()`. When an event matching
+// `events` (names or patterns like "shipment_*") fires, `apply` may turn
+// it into a single row change ({ upsert } or { delete }, or null when it
+// doesn't concern this subscriber); without `apply`, or when it returns
+// undefined, the query re-runs and the client gets the diff.
+export type LiveOptions<Row, P, Data = unknown> = {
+  events: string[];
+  key(row: Row): LiveKey;
+  apply?(
+    event: string,
+    data: Data,
+    params: P,
+    ctx: QueryContext,
+  ): { upsert: Row } | { delete: LiveKey } | null | undefined;
+};
+
+export type QueryOptions<
+  Q extends QueriesDef,
+  K extends keyof Q,
+  E extends EventsDef = EventsDef,
+> = Guard<QueryParams<Q, K>> & {
+  schema?: StandardSchemaV1<unknown, QueryParams<Q, K>>;
+  live?: LiveOptions<QueryRow<Q, K>, QueryParams<Q, K>, E[keyof E]>;
+};
+
+type CommandEntry<
+  C extends CommandsDef,
+  K extends keyof C,
+  E extends EventsDef,
+> = CommandOptions<C, K> & { handler: CommandHandler<C, K, E> };
+
+type QueryEntry<
+  Q extends QueriesDef,
+  K extends keyof Q,
+  E extends EventsDef,
+> = QueryOptions<Q, K, E> & { handler: QueryHandler<Q, K> };
+
+// A running live query and the rows its client has, as JSON by key
+type LiveSubscription<Q extends QueriesDef, E extends EventsDef> = {
+  ws: ServerWebSocket<ClientData>;
+  id: number;
+  name: string;
+  entry: QueryEntry<Q, keyof Q, E>;
+  live: LiveOptions<unknown, unknown>;
+  params: unknown;
+  ctx: QueryContext;
+  // Fingerprint of each row last sent, to tell which rows changed
+  rows: Map<LiveKey, string>;
+  // Set while the query runs; events arriving meanwhile mark it dirty
+  running: Promise<void> | null;
+  dirty: boolean;
+};
+
+// Where a token is read from when a socket connects: the `?token=` query
+// string, a `Sec-WebSocket-Protocol` bearer, or a cookie. Tokens can also
+// be sent in an `auth` message after connecting, whatever is configured.
+export type TokenTransport = "query" | "protocol" | "cookie";
+
 export type AuthConfig = {
-  verify: (token: string) => Promise<number | null>;
+  // Return a user id, a full principal, or null for an invalid token
+  verify: (token: string) => Promise<number | Principal | null>;
   public: string[];
+  // Accepted at connect, in order of preference (default query, protocol)
+  transports?: TokenTransport[];
+  // Cookie read by the "cookie" transport (default seiro_token)
+  cookie?: string;
+  // Page origins allowed to open a socket, or a function deciding per
+  // request. Required with the "cookie" transport: browsers send cookies
+  // on WebSockets opened by any site, so without it another page could
+  // act as the signed-in user.
+  origins?: string[] | ((req: Request) => boolean);
+  // Decide whether a principal may subscribe to an event pattern; checked
+  // on sub and again whenever the connection's principal changes
+  canSubscribe?: (
+    principal: Principal | null,
+    pattern: string,
+  ) => boolean | Promise<boolean>;
 };
 
 export type HealthCheck = () => Promise<boolean>;
 
+// An emitted event, kept for replay with the options that decide who
+// may receive it
+type RetainedEvent = {
+  seq: number;
+  // Emit order across channels, so replays keep it
+  order: number;
+  data: unknown;
+  options: EmitOptions<unknown>;
+  // Encoded once per codec, for recipients without a transform
+  encoded?: Map<Codec, Frame>;
+};
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+// Rows are compared by their MessagePack bytes, which unlike JSON cover
+// BigInt, Date and binary values; latin1 keeps each byte as one char
+function fingerprint(row: unknown): string {
+  return Buffer.from(encodeMsgpack(row)).toString("latin1");
+}
+
+// Collect a query's rows into {id, rows} frames
+function createRowBatch(ws: WS, id: number, config: Required<RowBatchConfig>) {
+  const { codec } = ws.data;
+  let rows: object[] = [];
+  let bytes = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function clear() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  }
+
+  function flush() {
+    clear();
+    if (rows.length === 0) return;
+    ws.send(codec.encode({ id, rows }));
+    rows = [];
+    bytes = 0;
+  }
+
+  return {
+    push(row: object) {
+      rows.push(row);
+      bytes += codec.encode(row).length;
+      if (rows.length >= config.count || bytes >= config.bytes) flush();
+      else timer ??= setTimeout(flush, config.delay);
+    },
+    flush,
+    discard() {
+      clear();
+      rows = [];
+    },
+  };
+}
+
+function toPrincipal(verified: number | Principal | null): Principal | null {
+  if (verified === null) return null;
+  return typeof verified === "number" ? { id: verified } : verified;
+}
+
+export type ServerOptions = {
+  port?: number;
+  auth?: AuthConfig;
+  healthCheck?: HealthCheck;
+  // Replay responses for retried command cids instead of re-running them
+  idempotency?: boolean | IdempotencyConfig;
+  rateLimit?: RateLimitConfig;
+  // Fan emits and targeted sends out to other server instances
+  backplane?: Backplane;
+  // Keep the last `size` events per channel (default 100) so clients
+  // resubscribing with `since` get the ones they missed
+  retention?: boolean | { size?: number };
+  // Pause query streams while a socket has more than this many bytes
+  // waiting to be sent (default 1 MiB)
+  maxBufferedBytes?: number;
+  // Chunking of query rows for clients that accept batches; false sends
+  // every row in its own frame
+  rowBatch?: false | RowBatchConfig;
+  // Codecs clients may ask for besides JSON (default MessagePack)
+  codecs?: Codec[];
+  // Ping interval asked of clients and the grace before a silent one is
+  // dropped; false disables both
+  heartbeat?: false | HeartbeatConfig;
+  // Serve Prometheus metrics at /metrics
+  metrics?: boolean;
+};
+
+export type StopOptions = {
+  // How long running commands and queries get to finish (10s)
+  drainTimeout?: number;
+};
+
+// Clients that say hello ping every `interval` ms (30s); one sending
+// nothing for `interval + timeout` (10s) is taken to be gone
+export type HeartbeatConfig = {
+  interval?: number;
+  timeout?: number;
+};
+
+// A chunk is sent once it has `count` rows (100) or `bytes` of encoded
+// rows (64 KiB), or `delay` ms (10) after its first row
+export type RowBatchConfig = {
+  count?: number;
+  bytes?: number;
+  delay?: number;
+};
+
+// Flow control for a streaming query: rows it may still send before the
+// client grants more, and how to wake it when paused
+type Flow = { credit: number; resume: (() => void) | null };
+
 export function createServer<
   C extends CommandsDef = CommandsDef,
   Q extends QueriesDef = QueriesDef,
   E extends EventsDef = EventsDef,
->(
-  options: { port?: number; auth?: AuthConfig; healthCheck?: HealthCheck } = {},
-) {
+>(options: ServerOptions = {}) {
   const clients = new Map<string, WS>();
   const subscriptions = new Map<string, Set<string>>();
-  const commandHandlers = new Map<string, CommandHandler<C, keyof C, E>>();
-  const queryHandlers = new Map<string, QueryHandler<Q, keyof Q>>();
+  // Connection ids by user id and by room name
+  const userSockets = new Map<number, Set<string>>();
+  const rooms = new Map<string, Set<string>>();
+  const commandHandlers = new Map<string, CommandEntry<C, keyof C, E>>();
+  const queryHandlers = new Map<string, QueryEntry<Q, keyof Q, E>>();
+  const liveSubs = new Set<LiveSubscription<Q, E>>();
+  const flows = new WeakMap<AbortController, Flow>();
+  // Codecs by subprotocol; plain "seiro" is JSON without a handshake
+  const codecs = new Map<string, Codec>(
+    [jsonCodec, ...(options.codecs ?? [msgpackCodec])].map((codec) => [
+      codecProtocol(codec),
+      codec,
+    ]),
+  );
+  if (options.auth?.transports?.includes("cookie") && !options.auth.origins) {
+    throw new Error('auth.origins is required with the "cookie" transport');
+  }
+  const maxBufferedBytes = options.maxBufferedBytes ?? 1024 * 1024;
+  const heartbeat =
+    options.heartbeat === false
+      ? null
+      : { interval: 30_000, timeout: 10_000, ...options.heartbeat };
+  // When each heartbeat connection last sent anything, and its check
+  const lastSeen = new Map<string, number>();
+  const idleChecks = new Map<string, ReturnType<typeof setInterval>>();
+  const rowBatch =
+    options.rowBatch === false
+      ? null
+      : { count: 100, bytes: 64 * 1024, delay: 10, ...options.rowBatch };
+  const middleware: Middleware<E>[] = [];
   let openHandler: OpenHandler | null = null;
+  const hooks = {
+    command: new Set<Hook<RequestInfo>>(),
+    query: new Set<Hook<QueryInfo>>(),
+    emit: new Set<Hook<EmitInfo>>(),
+    connect: new Set<Hook<ClientData>>(),
+    disconnect: new Set<Hook<DisconnectInfo>>(),
+  };
+  const metrics = options.metrics ? createMetrics() : null;
+  // When each connection opened, for its duration on disconnect
+  const openedAt = new Map<string, number>();
+  const idempotency = options.idempotency
+    ? {
+        store: createMemoryIdempotencyStore(),
+        ttl: 10 * 60 * 1000,
+        ...(options.idempotency === true ? {} : options.idempotency),
+      }
+    : null;
+  const inFlight = new Map<string, Promise<StoredResponse>>();
+  const limiter = options.rateLimit
+    ? createRateLimiter(options.rateLimit)
+    : null;
+  const nodeId = crypto.randomUUID();
+  const channelSeqs = new Map<string, number>();
+  let emitted = 0;
+  const retained = new Map<string, RetainedEvent[]>();
+  const retentionSize = options.retention
+    ? ((options.retention === true ? {} : options.retention).size ?? 100)
+    : 0;
+  // Connections that selected a codec and have yet to say hello
+  const awaitingHello = new Set<string>();
+  // Optional features, announced in the welcome
+  const capabilities = ["auth", "batch", "credit", "live"];
+  if (retentionSize > 0) capabilities.push("replay");
+  if (heartbeat) capabilities.push("heartbeat");
+  let backplaneReady: Promise<void> | null = null;
+  // The Bun server while started, and whether stop() is draining it
+  let listener: BunServer<ClientData> | null = null;
+  let draining = false;
+  // Commands and queries being handled, for stop() to wait on
+  const running = new Set<Promise<void>>();
+  // Serialises auth/logout per connection so replies arrive in order
+  const sessionChanges = new Map<string, Promise<void>>();
+
+  // Channels already warned about for emitting past the backplane
+  const unpublished = new Set<string>();
+
+  function emit<K extends keyof E>(
+    channel: K,
+    payload: E[K],
+    emitOptions: EmitOptions<E[K]> = {},
+  ) {
+    const start = Date.now();
+    const recipients = emitLocal(channel, payload, emitOptions);
+    metrics?.emit(recipients);
+    notify(hooks.emit, {
+      channel: channel as string,
+      recipients,
+      duration: Date.now() - start,
+    });
+    if (emitOptions.local) return;
+    if (emitOptions.filter || emitOptions.transform) {
+      // Functions can't be sent, so other nodes never see these events
+      if (options.backplane && !unpublished.has(channel as string)) {
+        unpublished.add(channel as string);
+        serverLogger.warn(
+          `${channel as string} emitted with a filter or transform only reaches this node's sockets`,
+        );
+      }
+      return;
+    }
+    const { to } = emitOptions;
+    publish({
+      ev: channel as string,
+      data: payload,
+      ...(to === undefined ? {} : { to: [to].flat() }),
+    });
+  }
+
+  function publish(message: DistributiveOmit<BackplaneMessage, "origin">) {
+    options.backplane
+      ?.publish({ ...message, origin: nodeId } as BackplaneMessage)
+      .catch((e) => serverLogger.error("Backplane publish failed:", e));
+  }
 
-  function emit<K extends keyof E>(channel: K, payload: E[K]) {
-    const msg = encode({ ev: channel as string, data: payload });
+  // Deliver another node's message to this node's sockets
+  function receive(message: BackplaneMessage) {
+    if (message.origin === nodeId) return;
+    const data = message.data as E[keyof E];
+    if ("user" in message || "connection" in message || "room" in message) {
+      deliver(message, message.ev, data);
+    } else {
+      emitLocal(message.ev, data, { to: message.to });
+    }
+  }
+
+  function emitLocal<K extends keyof E>(
+    channel: K,
+    payload: E[K],
+    emitOptions: EmitOptions<E[K]>,
+  ) {
+    const ev = channel as string;
+    const seq = (channelSeqs.get(ev) ?? 0) + 1;
+    channelSeqs.set(ev, seq);
+    const event: RetainedEvent = {
+      seq,
+      order: ++emitted,
+      data: payload,
+      options: emitOptions as EmitOptions<unknown>,
+    };
+    if (retentionSize > 0) {
+      const buffer = retained.get(ev) ?? [];
+      buffer.push(event);
+      if (buffer.length > retentionSize) buffer.shift();
+      retained.set(ev, buffer);
+    }
     let matchedPatterns = 0;
     let matchedClients = 0;
     for (const [pattern, clientIds] of subscriptions) {
-      if (matchPattern(pattern, channel as string)) {
+      if (matchPattern(pattern, ev)) {
         matchedPatterns++;
-        matchedClients += clientIds.size;
         for (const clientId of clientIds) {
-          clients.get(clientId)?.send(msg);
+          const ws = clients.get(clientId);
+          const msg = ws && eventFor(ws, ev, event);
+          if (!msg) continue;
+          ws.send(msg);
+          matchedClients++;
         }
       }
     }
     serverLogger.info(
       `Emit ${String(channel)} → ${matchedPatterns} patterns, ${matchedClients} clients`,
     );
+    if (liveSubs.size > 0) updateLive(ev, payload);
+    return matchedClients;
+  }
+
+  // The encoded event for one recipient, or null if it shouldn't get it
+  function eventFor(ws: WS, ev: string, event: RetainedEvent): Frame | null {
+    const { to, filter, transform } = event.options;
+    const { userId } = ws.data;
+    if (
+      to !== undefined &&
+      (userId === null || ![to].flat().includes(userId))
+    ) {
+      return null;
+    }
+    if (filter && !filter(ws.data)) return null;
+    if (transform) {
+      const shaped = transform(event.data, ws.data);
+      if (shaped === undefined) return null;
+      return ws.data.codec.encode({ ev, data: shaped, seq: event.seq });
+    }
+    event.encoded ??= new Map();
+    let frame = event.encoded.get(ws.data.codec);
+    if (frame === undefined) {
+      frame = ws.data.codec.encode({ ev, data: event.data, seq: event.seq });
+      event.encoded.set(ws.data.codec, frame);
+    }
+    return frame;
+  }
+
+  // Send the events a resubscribing client missed. Returns false when
+  // some are no longer retained (or the seqs come from another server)
+  // and the client has to re-query instead.
+  function replay(
+    ws: WS,
+    pattern: string,
+    since: Record<string, number>,
+    node?: string,
+  ) {
+    // Seqs are counted per node; another node's can't be compared.
+    // Clients from before `node` rely on the check below.
+    if (node !== undefined && node !== nodeId) return false;
+    for (const [ev, seen] of Object.entries(since)) {
+      if (matchPattern(pattern, ev) && seen > (channelSeqs.get(ev) ?? 0)) {
+        return false;
+      }
+    }
+    const missed: [string, RetainedEvent][] = [];
+    for (const [ev, current] of channelSeqs) {
+      if (!matchPattern(pattern, ev)) continue;
+      const seen = since[ev] ?? 0;
+      if (seen === current) continue;
+      const buffer = retained.get(ev) ?? [];
+      if (!buffer.length || buffer[0]!.seq > seen + 1) return false;
+      for (const event of buffer) {
+        if (event.seq > seen) missed.push([ev, event]);
+      }
+    }
+    missed.sort(([, a], [, b]) => a.order - b.order);
+    for (const [ev, event] of missed) {
+      const msg = eventFor(ws, ev, event);
+      if (msg) ws.send(msg);
+    }
+    return true;
+  }
+
+  function currentSeqs(pattern: string): Record<string, number> {
+    const seqs: Record<string, number> = {};
+    for (const [ev, seq] of channelSeqs) {
+      if (matchPattern(pattern, ev)) seqs[ev] = seq;
+    }
+    return seqs;
+  }
+
+  function write(ws: WS, msg: object) {
+    ws.send(ws.data.codec.encode(msg));
   }
 
   function sendToClient<K extends keyof E>(ws: WS, event: K, data: E[K]) {
-    ws.send(encode({ ev: event as string, data }));
+    write(ws, { ev: event as string, data });
+  }
+
+  function deliver(route: Route, ev: string, data: unknown) {
+    const ids =
+      "user" in route
+        ? userSockets.get(route.user)
+        : "room" in route
+          ? rooms.get(route.room)
+          : [route.connection];
+    // Encoded once per codec in use
+    const frames = new Map<Codec, Frame>();
+    for (const id of ids ?? []) {
+      const ws = clients.get(id);
+      if (!ws) continue;
+      const { codec } = ws.data;
+      if (!frames.has(codec)) frames.set(codec, codec.encode({ ev, data }));
+      ws.send(frames.get(codec)!);
+    }
+  }
+
+  function target(route: Route): Target<E> {
+    return {
+      send(event, data) {
+        const ev = event as string;
+        deliver(route, ev, data);
+        // A local connection can't also be on another node
+        if ("connection" in route && clients.has(route.connection)) return;
+        publish({ ...route, ev, data });
+      },
+    };
+  }
+
+  // Every socket of a user, e.g. all their open tabs
+  function toUser(userId: number): Target<E> {
+    return target({ user: userId });
+  }
+
+  function toConnection(connectionId: string): Target<E> {
+    return target({ connection: connectionId });
+  }
+
+  function toRoom(room: string): Target<E> {
+    return target({ room });
+  }
+
+  function addTo<K>(index: Map<K, Set<string>>, key: K, id: string) {
+    let ids = index.get(key);
+    if (!ids) index.set(key, (ids = new Set()));
+    ids.add(id);
+  }
+
+  function removeFrom<K>(index: Map<K, Set<string>>, key: K, id: string) {
+    const ids = index.get(key);
+    ids?.delete(id);
+    if (ids?.size === 0) index.delete(key);
+  }
+
+  function join(ws: WS, room: string) {
+    ws.data.rooms.add(room);
+    addTo(rooms, room, ws.data.id);
+  }
+
+  function leave(ws: WS, room: string) {
+    ws.data.rooms.delete(room);
+    removeFrom(rooms, room, ws.data.id);
   }
 
   function matchPattern(pattern: string, channel: string): boolean {
@@ -115,21 +771,102 @@ export function createServer<
   function command<K extends keyof C & string>(
     name: K,
     handler: CommandHandler<C, K, E>,
+    options: CommandOptions<C, K> = {},
   ) {
-    commandHandlers.set(name, handler as CommandHandler<C, keyof C, E>);
+    commandHandlers.set(name, {
+      ...options,
+      handler,
+    } as unknown as CommandEntry<C, keyof C, E>);
   }
 
   function query<K extends keyof Q & string>(
     name: K,
     handler: QueryHandler<Q, K>,
+    options: QueryOptions<Q, K, E> = {},
   ) {
-    queryHandlers.set(name, handler as unknown as QueryHandler<Q, keyof Q>);
+    queryHandlers.set(name, {
+      ...options,
+      handler,
+    } as unknown as QueryEntry<Q, keyof Q, E>);
   }
 
   function onOpen(handler: OpenHandler) {
     openHandler = handler;
   }
 
+  // Observability hooks; each may be registered more than once
+  function onCommand(hook: Hook<RequestInfo>) {
+    hooks.command.add(hook);
+  }
+
+  function onQuery(hook: Hook<QueryInfo>) {
+    hooks.query.add(hook);
+  }
+
+  function onEmit(hook: Hook<EmitInfo>) {
+    hooks.emit.add(hook);
+  }
+
+  function onConnect(hook: Hook<ClientData>) {
+    hooks.connect.add(hook);
+  }
+
+  function onDisconnect(hook: Hook<DisconnectInfo>) {
+    hooks.disconnect.add(hook);
+  }
+
+  function gauges(): Gauges {
+    let subscribed = 0;
+    for (const ws of clients.values()) subscribed += ws.data.subscriptions.size;
+    return {
+      connections: clients.size,
+      subscriptions: subscribed,
+      liveQueries: liveSubs.size,
+    };
+  }
+
+  // A throwing hook is logged; it mustn't fail the request it observes
+  function notify<T>(set: Set<Hook<T>>, info: T) {
+    for (const hook of set) {
+      try {
+        hook(info);
+      } catch (e) {
+        serverLogger.error("Hook failed:", e);
+      }
+    }
+  }
+
+  // A command or query has finished: log it, count it and run hooks
+  function finished(
+    kind: "command" | "query",
+    ws: WS,
+    name: string,
+    start: number,
+    outcome: Outcome,
+    extra: { error?: SeiroError; rows?: number; live?: boolean } = {},
+  ) {
+    const duration = Date.now() - start;
+    const { error, rows = 0, live = false } = extra;
+    logWsAccess(
+      kind === "command" ? "CMD" : live ? "LIVE" : "QUERY",
+      name,
+      duration,
+      ws.data.userId,
+      outcome === "cancelled" ? "Cancelled" : error?.message,
+    );
+    const handlers = kind === "command" ? commandHandlers : queryHandlers;
+    metrics?.request(
+      kind,
+      handlers.has(name) ? name : "unknown",
+      duration / 1000,
+      outcome,
+    );
+    const info: RequestInfo = { name, client: ws.data, duration, outcome };
+    if (error) info.error = error;
+    if (kind === "command") notify(hooks.command, info);
+    else notify(hooks.query, { ...info, rows, live });
+  }
+
   function isPublic(name: string): boolean {
     return options.auth?.public.includes(name) ?? false;
   }
@@ -138,126 +875,803 @@ export function createServer<
     return options.auth !== undefined && !isPublic(name);
   }
 
-  async function handleMessage(ws: WS, raw: string) {
-    const msg = decode(raw);
+  function use(fn: Middleware<E>) {
+    middleware.push(fn);
+  }
 
-    if (isCmd(msg)) {
-      const start = Date.now();
-      const handler = commandHandlers.get(msg.cmd);
-      if (!handler) {
-        ws.send(encode({ cid: msg.cid, err: `Unknown command: ${msg.cmd}` }));
-        logWsAccess(
-          "CMD",
-          msg.cmd,
-          Date.now() - start,
-          ws.data.userId,
-          "Unknown command",
-        );
-        return;
+  // Koa-style composition: each middleware awaits next() to run the rest
+  function runMiddleware(
+    ctx: MiddlewareContext<E>,
+    core: () => Promise<void>,
+  ): Promise<void> {
+    let index = -1;
+    function dispatch(i: number): Promise<void> {
+      if (i <= index) {
+        return Promise.reject(new Error("next() called multiple times"));
       }
-      if (requiresAuth(msg.cmd) && ws.data.userId === null) {
-        ws.send(encode({ cid: msg.cid, err: "Not authenticated" }));
-        logWsAccess(
-          "CMD",
-          msg.cmd,
-          Date.now() - start,
-          ws.data.userId,
-          "Not authenticated",
+      index = i;
+      const fn = middleware[i];
+      if (!fn) return core();
+      return Promise.resolve(fn(ctx, () => dispatch(i + 1)));
+    }
+    return dispatch(0);
+  }
+
+  function checkAuth(name: string, ws: WS) {
+    if (requiresAuth(name) && ws.data.userId === null) {
+      throw new SeiroError(ErrorCodes.NOT_AUTHENTICATED, "Not authenticated");
+    }
+  }
+
+  async function checkAccess(guard: Guard<unknown>, ws: WS, payload: unknown) {
+    if (!guard.roles && !guard.authorize) return;
+    const { principal } = ws.data;
+    if (!principal) {
+      throw new SeiroError(ErrorCodes.NOT_AUTHENTICATED, "Not authenticated");
+    }
+    const allowed =
+      (!guard.roles ||
+        guard.roles.some((role) => principal.roles?.includes(role))) &&
+      (!guard.authorize || (await guard.authorize(principal, payload)));
+    if (!allowed) throw new SeiroError(ErrorCodes.FORBIDDEN, "Forbidden");
+  }
+
+  async function parse<T>(
+    schema: StandardSchemaV1<unknown, T> | undefined,
+    payload: unknown,
+  ): Promise<T> {
+    if (!schema) return payload as T;
+    const checked = await validate(schema, payload);
+    if (!checked.ok) {
+      throw new SeiroError(ErrorCodes.VALIDATION_FAILED, "Validation failed", {
+        issues: checked.issues,
+      });
+    }
+    return checked.value;
+  }
+
+  // Reject over-limit messages before dispatch; true when rejected.
+  // Runs ahead of idempotency so a rejection is never stored and replayed.
+  function rateLimited(
+    ws: WS,
+    action: "CMD" | "QUERY",
+    name: string,
+    reply: { cid: string } | { id: number },
+  ): boolean {
+    if (!limiter) return false;
+    const retryAfter = limiter.check(name, ws.data.id, ws.data.userId);
+    if (retryAfter === 0) return false;
+    const error = new SeiroError(
+      ErrorCodes.RATE_LIMITED,
+      "Rate limit exceeded",
+      { retryAfter },
+    );
+    write(ws, { ...reply, ...toWire(error) });
+    finished(
+      action === "CMD" ? "command" : "query",
+      ws,
+      name,
+      Date.now(),
+      "error",
+      { error },
+    );
+    const closeAfter = options.rateLimit?.closeAfter;
+    if (closeAfter && limiter.strikes(ws.data.id) >= closeAfter) {
+      serverLogger.warn(`Closing ${ws.data.id}: rate limit exceeded`);
+      // 1008: policy violation
+      ws.close(1008, "Rate limit exceeded");
+    }
+    return true;
+  }
+
+  async function handleCommand(ws: WS, msg: Cmd) {
+    if (rateLimited(ws, "CMD", msg.cmd, { cid: msg.cid })) return;
+    const response = idempotency
+      ? await idempotent(ws, msg)
+      : await executeCommand(ws, msg);
+    if (msg.ack || "err" in response) write(ws, response);
+  }
+
+  // Run each (user, command, cid) once: retries wait for a running
+  // execution or replay the stored response. Anonymous commands are keyed
+  // by cid alone, so a replay on a new socket is still recognised; random
+  // cids keep one client from guessing another's.
+  function idempotent(ws: WS, msg: Cmd): Promise<StoredResponse> {
+    const { store, ttl } = idempotency!;
+    const owner = ws.data.userId ?? "anon";
+    const key = `${owner}:${msg.cmd}:${msg.cid}`;
+    let running = inFlight.get(key);
+    if (!running) {
+      running = (async () => {
+        try {
+          const stored = await store.get(key);
+          if (stored) {
+            serverLogger.debug(`Replaying ${msg.cmd} (${msg.cid})`);
+            return stored;
+          }
+        } catch (e) {
+          serverLogger.warn("Idempotency lookup failed:", e);
+        }
+        const response = await executeCommand(ws, msg);
+        try {
+          await store.set(key, response, ttl);
+        } catch (e) {
+          serverLogger.warn("Idempotency store failed:", e);
+        }
+        return response;
+      })().finally(() => inFlight.delete(key));
+      inFlight.set(key, running);
+    }
+    return running;
+  }
+
+  async function executeCommand(ws: WS, msg: Cmd): Promise<StoredResponse> {
+    const start = Date.now();
+    const ctx: CommandContext<E> = {
+      userId: ws.data.userId,
+      principal: ws.data.principal,
+      connectionId: ws.data.id,
+      setUserId: (id: number) => ctx.setPrincipal({ id }),
+      setPrincipal: (principal: Principal) => {
+        setPrincipal(ws, principal).catch((e) =>
+          serverLogger.error("Subscription check failed:", e),
         );
-        return;
+        ctx.principal = principal;
+        ctx.userId = principal.id;
+      },
+      send: (event, data) => sendToClient(ws, event, data as E[keyof E]),
+      join: (room) => join(ws, room),
+      leave: (room) => leave(ws, room),
+      state: {},
+    };
+    const mctx: MiddlewareContext<E> = {
+      type: "cmd",
+      name: msg.cmd,
+      payload: msg.data,
+      client: ws.data,
+      context: ctx,
+      state: ctx.state,
+    };
+    try {
+      await runMiddleware(mctx, async () => {
+        const entry = commandHandlers.get(msg.cmd);
+        if (!entry) {
+          throw new SeiroError(
+            ErrorCodes.UNKNOWN_COMMAND,
+            `Unknown command: ${msg.cmd}`,
+          );
+        }
+        checkAuth(msg.cmd, ws);
+        const data = await parse(entry.schema, mctx.payload);
+        await checkAccess(entry, ws, data);
+        mctx.result = await entry.handler(data, ctx);
+      });
+      finished("command", ws, msg.cmd, start, "ok");
+      // Use null instead of undefined so it survives JSON serialization
+      return { cid: msg.cid, result: mctx.result ?? null };
+    } catch (e) {
+      const error = SeiroError.from(e, "command failed");
+      serverLogger.warn(`Command ${msg.cmd} failed: ${error.message}`);
+      finished("command", ws, msg.cmd, start, "error", { error });
+      return { cid: msg.cid, ...toWire(error) };
+    }
+  }
+
+  async function handleQuery(ws: WS, msg: QueryMsg) {
+    if (rateLimited(ws, "QUERY", msg.q, { id: msg.id })) return;
+    const start = Date.now();
+    const controller = new AbortController();
+    ws.data.queries.set(msg.id, controller);
+    // Clients that don't send credit get every row as fast as the socket
+    // drains
+    const flow: Flow = { credit: msg.credit ?? Infinity, resume: null };
+    flows.set(controller, flow);
+    const batch =
+      msg.batch && rowBatch ? createRowBatch(ws, msg.id, rowBatch) : null;
+    const ctx: QueryContext = {
+      userId: ws.data.userId,
+      principal: ws.data.principal,
+      connectionId: ws.data.id,
+      state: {},
+      signal: controller.signal,
+    };
+    let rows = 0;
+    // Cancelled queries get no end or error message; the client has gone
+    const logCancelled = () =>
+      finished("query", ws, msg.q, start, "cancelled", { rows });
+    const mctx: MiddlewareContext<E> = {
+      type: "query",
+      name: msg.q,
+      payload: msg.params ?? {},
+      client: ws.data,
+      context: ctx,
+      state: ctx.state,
+    };
+    try {
+      await runMiddleware(mctx, async () => {
+        const entry = queryHandlers.get(msg.q);
+        if (!entry) {
+          throw new SeiroError(
+            ErrorCodes.UNKNOWN_QUERY,
+            `Unknown query: ${msg.q}`,
+          );
+        }
+        checkAuth(msg.q, ws);
+        const params = await parse(entry.schema, mctx.payload);
+        await checkAccess(entry, ws, params);
+        for await (const row of entry.handler(params, ctx)) {
+          // Waiting here leaves the generator suspended, so it reads no
+          // further rows until the client can take them. Rows held in
+          // the batch go first, as the client may be waiting on them.
+          if (paused(ws, flow)) batch?.flush();
+          await ready(ws, flow, controller.signal);
+          // Breaking calls return() on the generator so it can clean up
+          if (controller.signal.aborted) break;
+          if (batch) batch.push(row as object);
+          else write(ws, { id: msg.id, row });
+          flow.credit--;
+          rows++;
+        }
+      });
+      if (controller.signal.aborted) return logCancelled();
+      batch?.flush();
+      write(ws, { id: msg.id });
+      finished("query", ws, msg.q, start, "ok", { rows });
+    } catch (e) {
+      if (controller.signal.aborted) return logCancelled();
+      const error = SeiroError.from(e, "query failed");
+      serverLogger.warn(`Query ${msg.q} failed: ${error.message}`);
+      batch?.flush();
+      write(ws, { id: msg.id, ...toWire(error) });
+      finished("query", ws, msg.q, start, "error", { error, rows });
+    } finally {
+      batch?.discard();
+      ws.data.queries.delete(msg.id);
+    }
+  }
+
+  function paused(ws: WS, flow: Flow) {
+    return flow.credit <= 0 || ws.getBufferedAmount() > maxBufferedBytes;
+  }
+
+  // Wait until a query has credit left and the socket's send buffer is
+  // below maxBufferedBytes; a credit message or drain wakes it
+  async function ready(ws: WS, flow: Flow, signal: AbortSignal) {
+    while (!signal.aborted && paused(ws, flow)) {
+      await new Promise<void>((resolve) => {
+        const wake = () => {
+          signal.removeEventListener("abort", wake);
+          flow.resume = null;
+          resolve();
+        };
+        flow.resume = wake;
+        signal.addEventListener("abort", wake);
+      });
+    }
+  }
+
+  function grant(ws: WS, id: number, credit: number) {
+    const controller = ws.data.queries.get(id);
+    const flow = controller && flows.get(controller);
+    if (!flow || !(credit > 0)) return;
+    flow.credit += credit;
+    flow.resume?.();
+  }
+
+  async function handleLive(ws: WS, msg: LiveMsg) {
+    if (rateLimited(ws, "QUERY", msg.live, { id: msg.id })) return;
+    const start = Date.now();
+    const controller = new AbortController();
+    // Reusing a running id replaces that query rather than orphaning it
+    ws.data.queries.get(msg.id)?.abort();
+    ws.data.queries.set(msg.id, controller);
+    controller.signal.addEventListener("abort", () => {
+      if (ws.data.queries.get(msg.id) === controller) {
+        ws.data.queries.delete(msg.id);
       }
-      try {
-        const ctx: CommandContext<E> = {
-          userId: ws.data.userId,
-          setUserId: (id: number) => {
-            ws.data.userId = id;
-            ctx.userId = id;
-          },
-          send: (event, data) => sendToClient(ws, event, data as E[keyof E]),
+    });
+    const ctx: QueryContext = {
+      userId: ws.data.userId,
+      principal: ws.data.principal,
+      connectionId: ws.data.id,
+      state: {},
+      signal: controller.signal,
+    };
+    const mctx: MiddlewareContext<E> = {
+      type: "query",
+      name: msg.live,
+      payload: msg.params ?? {},
+      client: ws.data,
+      context: ctx,
+      state: ctx.state,
+    };
+    let started = false;
+    let rows = 0;
+    try {
+      await runMiddleware(mctx, async () => {
+        const entry = queryHandlers.get(msg.live);
+        if (!entry?.live) {
+          throw new SeiroError(
+            ErrorCodes.UNKNOWN_QUERY,
+            entry
+              ? `Not a live query: ${msg.live}`
+              : `Unknown query: ${msg.live}`,
+          );
+        }
+        checkAuth(msg.live, ws);
+        const params = await parse(entry.schema, mctx.payload);
+        await checkAccess(entry, ws, params);
+        const sub: LiveSubscription<Q, E> = {
+          ws,
+          id: msg.id,
+          name: msg.live,
+          entry,
+          live: entry.live as LiveOptions<unknown, unknown>,
+          params,
+          ctx,
+          rows: new Map(),
+          running: null,
+          dirty: false,
         };
-        const result = await handler(msg.data as CommandData<C, keyof C>, ctx);
-        if (msg.ack) {
-          // Use null instead of undefined so it survives JSON serialization
-          ws.send(encode({ cid: msg.cid, result: result ?? null }));
+        // Replaced or cancelled while its access was being checked
+        if (controller.signal.aborted) return;
+        liveSubs.add(sub);
+        controller.signal.addEventListener("abort", () => liveSubs.delete(sub));
+        sub.running = rerun(sub, true);
+        try {
+          await sub.running;
+        } finally {
+          sub.running = null;
         }
-        logWsAccess("CMD", msg.cmd, Date.now() - start, ws.data.userId);
+        started = true;
+        rows = sub.rows.size;
+        if (sub.dirty) schedule(sub);
+      });
+      if (controller.signal.aborted) return;
+      // Middleware skipped the handler: an empty, never-updated result
+      if (!started) {
+        write(ws, { id: msg.id, reset: true });
+        controller.abort();
+      }
+      finished("query", ws, msg.live, start, "ok", { rows, live: true });
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      controller.abort();
+      const error = SeiroError.from(e, "query failed");
+      serverLogger.warn(`Live query ${msg.live} failed: ${error.message}`);
+      write(ws, { id: msg.id, ...toWire(error) });
+      finished("query", ws, msg.live, start, "error", { error, live: true });
+    }
+  }
+
+  // Run the query again and send what changed since the last run
+  async function rerun(sub: LiveSubscription<Q, E>, reset = false) {
+    const next = new Map<LiveKey, string>();
+    const upsert: [LiveKey, object][] = [];
+    const rows = sub.entry.handler(sub.params as never, sub.ctx);
+    for await (const row of rows) {
+      if (sub.ctx.signal.aborted) return;
+      const key = sub.live.key(row);
+      const print = fingerprint(row);
+      next.set(key, print);
+      if (reset || sub.rows.get(key) !== print)
+        upsert.push([key, row as object]);
+    }
+    if (sub.ctx.signal.aborted) return;
+    const deleted = reset
+      ? []
+      : [...sub.rows.keys()].filter((key) => !next.has(key));
+    sub.rows = next;
+    sendDiff(sub, { upsert, delete: deleted, reset });
+  }
+
+  function sendDiff(sub: LiveSubscription<Q, E>, diff: Omit<LiveDiff, "id">) {
+    const msg: LiveDiff = { id: sub.id };
+    if (diff.reset) msg.reset = true;
+    if (diff.upsert?.length) msg.upsert = diff.upsert;
+    if (diff.delete?.length) msg.delete = diff.delete;
+    if (msg.reset || msg.upsert || msg.delete) write(sub.ws, msg);
+  }
+
+  // Re-run once per burst of events: a run in progress is followed by
+  // one more if anything arrived while it ran
+  function schedule(sub: LiveSubscription<Q, E>) {
+    if (sub.running) {
+      sub.dirty = true;
+      return;
+    }
+    sub.running = (async () => {
+      do {
+        sub.dirty = false;
+        await rerun(sub);
+      } while (sub.dirty && !sub.ctx.signal.aborted);
+    })()
+      .catch((e) => {
+        const error = SeiroError.from(e, "query failed");
+        serverLogger.warn(`Live query failed: ${error.message}`);
+        write(sub.ws, { id: sub.id, ...toWire(error) });
+        sub.ws.data.queries.get(sub.id)?.abort();
+      })
+      .finally(() => {
+        sub.running = null;
+      });
+  }
+
+  function updateLive(ev: string, data: unknown) {
+    for (const sub of liveSubs) {
+      if (!sub.live.events.some((pattern) => matchPattern(pattern, ev))) {
+        continue;
+      }
+      if (sub.running || !sub.live.apply) {
+        schedule(sub);
+        continue;
+      }
+      let change;
+      try {
+        change = sub.live.apply(ev, data, sub.params, sub.ctx);
       } catch (e) {
-        const err = e instanceof Error ? e.message : "command failed";
-        serverLogger.warn(`Command ${msg.cmd} failed: ${err}`);
-        ws.send(encode({ cid: msg.cid, err }));
-        logWsAccess("CMD", msg.cmd, Date.now() - start, ws.data.userId, err);
+        serverLogger.warn(`Live apply for ${ev} failed:`, e);
+        change = undefined;
+      }
+      if (change === null) continue;
+      if (change === undefined) {
+        schedule(sub);
+      } else if ("upsert" in change) {
+        const key = sub.live.key(change.upsert);
+        const print = fingerprint(change.upsert);
+        if (sub.rows.get(key) === print) continue;
+        sub.rows.set(key, print);
+        sendDiff(sub, { upsert: [[key, change.upsert as object]] });
+      } else if (sub.rows.delete(change.delete)) {
+        sendDiff(sub, { delete: [change.delete] });
       }
+    }
+  }
+
+  function canSubscribe(ws: WS, pattern: string) {
+    const check = options.auth?.canSubscribe;
+    return check ? check(ws.data.principal, pattern) : true;
+  }
+
+  async function subscribe(
+    ws: WS,
+    pattern: string,
+    since?: Record<string, number>,
+    node?: string,
+  ) {
+    let allowed: boolean;
+    try {
+      allowed = await canSubscribe(ws, pattern);
+    } catch (e) {
+      serverLogger.error(`Subscription check for ${pattern} failed:`, e);
+      write(ws, { sub: pattern, ...toWire(SeiroError.from(e)) });
+      return;
+    }
+    if (!allowed) {
+      serverLogger.debug(`Subscription to ${pattern} denied for ${ws.data.id}`);
+      const error = new SeiroError(ErrorCodes.FORBIDDEN, "Forbidden");
+      write(ws, { sub: pattern, ...toWire(error) });
       return;
     }
+    ws.data.subscriptions.add(pattern);
+    if (!subscriptions.has(pattern)) subscriptions.set(pattern, new Set());
+    subscriptions.get(pattern)!.add(ws.data.id);
+    const resync = since !== undefined && !replay(ws, pattern, since, node);
+    write(ws, {
+      sub: pattern,
+      seq: currentSeqs(pattern),
+      node: nodeId,
+      ...(resync ? { resync } : {}),
+    });
+  }
 
-    if (isQuery(msg)) {
-      const start = Date.now();
-      const handler = queryHandlers.get(msg.q);
-      if (!handler) {
-        ws.send(encode({ id: msg.id, err: `Unknown query: ${msg.q}` }));
-        logWsAccess(
-          "QUERY",
-          msg.q,
-          Date.now() - start,
-          ws.data.userId,
-          "Unknown query",
-        );
-        return;
+  function unsubscribe(ws: WS, pattern: string) {
+    ws.data.subscriptions.delete(pattern);
+    subscriptions.get(pattern)?.delete(ws.data.id);
+  }
+
+  // Switch identity, leaving every room if the user changes, then drop
+  // subscriptions the new principal may not see
+  async function setPrincipal(ws: WS, principal: Principal | null) {
+    if (ws.data.userId !== null) {
+      removeFrom(userSockets, ws.data.userId, ws.data.id);
+    }
+    // Rooms belong to the user, so a refresh for the same one keeps them
+    if ((principal?.id ?? null) !== ws.data.userId) {
+      for (const room of [...ws.data.rooms]) leave(ws, room);
+    }
+    ws.data.principal = principal;
+    ws.data.userId = principal?.id ?? null;
+    if (ws.data.userId !== null && clients.has(ws.data.id)) {
+      addTo(userSockets, ws.data.userId, ws.data.id);
+    }
+    const live = [...liveSubs].filter((sub) => sub.ws === ws);
+    for (const pattern of [...ws.data.subscriptions]) {
+      // A check that throws revokes too, so the session change still finishes
+      let allowed = false;
+      try {
+        allowed = await canSubscribe(ws, pattern);
+      } catch (e) {
+        serverLogger.error(`Subscription check for ${pattern} failed:`, e);
       }
-      if (requiresAuth(msg.q) && ws.data.userId === null) {
-        ws.send(encode({ id: msg.id, err: "Not authenticated" }));
-        logWsAccess(
-          "QUERY",
-          msg.q,
-          Date.now() - start,
-          ws.data.userId,
-          "Not authenticated",
-        );
-        return;
+      if (!allowed) {
+        serverLogger.debug(`Revoked ${pattern} from ${ws.data.id}`);
+        unsubscribe(ws, pattern);
       }
+    }
+    for (const sub of live) await reauthorizeLive(sub);
+  }
+
+  // Re-check a live query as the socket's new principal and re-run it,
+  // or end it with an error if it is no longer allowed
+  async function reauthorizeLive(sub: LiveSubscription<Q, E>) {
+    const { ws } = sub;
+    sub.ctx.userId = ws.data.userId;
+    sub.ctx.principal = ws.data.principal;
+    try {
+      checkAuth(sub.name, ws);
+      await checkAccess(sub.entry, ws, sub.params);
+    } catch (e) {
+      const error = SeiroError.from(e);
+      write(ws, { id: sub.id, ...toWire(error) });
+      ws.data.queries.get(sub.id)?.abort();
+      return;
+    }
+    schedule(sub);
+  }
+
+  async function sendProfile(ws: WS, send = (data: object) => write(ws, data)) {
+    if (!openHandler) return;
+    try {
+      await openHandler({
+        userId: ws.data.userId,
+        principal: ws.data.principal,
+        connectionId: ws.data.id,
+        send: (data) => send(data as object),
+        join: (room) => join(ws, room),
+        leave: (room) => leave(ws, room),
+      });
+    } catch (e) {
+      serverLogger.error("onOpen handler failed:", e);
+    }
+  }
+
+  // Answer a hello: run onOpen, keeping back the profile it sends to go
+  // in the welcome. Sockets that were sent their profile on open (no
+  // codec subprotocol) have nothing to negotiate and are ignored.
+  async function welcome(ws: WS, msg: Hello) {
+    if (!awaitingHello.delete(ws.data.id)) return;
+    if (msg.hello !== PROTOCOL_VERSION) {
+      const error = new SeiroError(
+        ErrorCodes.INCOMPATIBLE_VERSION,
+        `Protocol version ${msg.hello} is not supported`,
+        { supported: [PROTOCOL_VERSION] },
+      );
+      write(ws, { welcome: PROTOCOL_VERSION, ...toWire(error) });
+      ws.close(1002, "Incompatible protocol version");
+      return;
+    }
+    let profile: { profile?: unknown } = {};
+    await sendProfile(ws, (data) => {
+      if ("profile" in data && !("profile" in profile)) profile = data;
+      else write(ws, data);
+    });
+    write(ws, {
+      welcome: PROTOCOL_VERSION,
+      connectionId: ws.data.id,
+      codec: ws.data.codec.name,
+      capabilities,
+      ...(heartbeat && { heartbeat: heartbeat.interval }),
+      ...profile,
+    });
+    watchIdle(ws);
+  }
+
+  // Drop a connection that stops pinging: its socket may be half-open,
+  // so it is terminated rather than sent a close it would never answer
+  function watchIdle(ws: WS) {
+    if (!heartbeat || ws.readyState !== 1) return;
+    const id = ws.data.id;
+    const limit = heartbeat.interval + heartbeat.timeout;
+    lastSeen.set(id, Date.now());
+    const check = setInterval(
+      () => {
+        if (Date.now() - (lastSeen.get(id) ?? 0) <= limit) return;
+        serverLogger.info(`Closing ${id}: no heartbeat for ${limit}ms`);
+        ws.terminate();
+      },
+      Math.min(heartbeat.interval, heartbeat.timeout),
+    );
+    idleChecks.set(id, check);
+  }
+
+  // Mid-session login, token refresh or logout: re-verify, re-send the
+  // profile, then reply with the session's user id
+  async function changeSession(ws: WS, token: string | null) {
+    let principal: Principal | null = null;
+    if (token !== null) {
       try {
-        const ctx: QueryContext = { userId: ws.data.userId };
-        for await (const row of handler(
-          (msg.params ?? {}) as QueryParams<Q, keyof Q>,
-          ctx,
-        )) {
-          ws.send(encode({ id: msg.id, row }));
-        }
-        ws.send(encode({ id: msg.id }));
-        logWsAccess("QUERY", msg.q, Date.now() - start, ws.data.userId);
+        principal = toPrincipal((await options.auth?.verify(token)) ?? null);
       } catch (e) {
-        const err = e instanceof Error ? e.message : "query failed";
-        serverLogger.warn(`Query ${msg.q} failed: ${err}`);
-        ws.send(encode({ id: msg.id, err }));
-        logWsAccess("QUERY", msg.q, Date.now() - start, ws.data.userId, err);
+        serverLogger.warn("Token verification failed:", e);
       }
+      if (!principal) {
+        const error = new SeiroError(
+          ErrorCodes.NOT_AUTHENTICATED,
+          "Invalid token",
+        );
+        write(ws, { session: ws.data.userId, ...toWire(error) });
+        logWsAccess("AUTH", "auth", 0, ws.data.userId, error.message);
+        return;
+      }
+    }
+    await setPrincipal(ws, principal);
+    await sendProfile(ws);
+    write(ws, { session: ws.data.userId });
+    logWsAccess("AUTH", token === null ? "logout" : "auth", 0, ws.data.userId);
+  }
+
+  function queueSessionChange(ws: WS, token: string | null) {
+    const previous = sessionChanges.get(ws.data.id) ?? Promise.resolve();
+    // A failed change is the caller's to handle; later ones still run
+    const next = previous.catch(() => {}).then(() => changeSession(ws, token));
+    sessionChanges.set(ws.data.id, next);
+    const cleanup = () => {
+      if (sessionChanges.get(ws.data.id) === next) {
+        sessionChanges.delete(ws.data.id);
+      }
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  }
+
+  async function handleMessage(ws: WS, raw: string | Buffer) {
+    if (lastSeen.has(ws.data.id)) lastSeen.set(ws.data.id, Date.now());
+    const msg = ws.data.codec.decode(raw);
+
+    // Batched messages run as if each had its own frame
+    if (isBatch(msg)) {
+      for (const item of msg) dispatch(ws, item);
+      return;
+    }
+    await dispatch(ws, msg);
+  }
+
+  async function track(work: Promise<void>) {
+    running.add(work);
+    try {
+      await work;
+    } finally {
+      running.delete(work);
+    }
+  }
+
+  async function dispatch(ws: WS, msg: unknown) {
+    if (isHello(msg)) {
+      await welcome(ws, msg);
       return;
     }
 
-    if (typeof msg === "object" && msg !== null && "sub" in msg) {
-      const pattern = (msg as { sub: string }).sub;
-      ws.data.subscriptions.add(pattern);
-      if (!subscriptions.has(pattern)) subscriptions.set(pattern, new Set());
-      subscriptions.get(pattern)!.add(ws.data.id);
+    if (isPing(msg)) {
+      write(ws, { pong: msg.ping });
       return;
     }
 
-    if (typeof msg === "object" && msg !== null && "unsub" in msg) {
-      const pattern = (msg as { unsub: string }).unsub;
-      ws.data.subscriptions.delete(pattern);
-      subscriptions.get(pattern)?.delete(ws.data.id);
+    if (draining && (isCmd(msg) || isQuery(msg) || isLive(msg))) {
+      const error = new SeiroError(
+        ErrorCodes.UNAVAILABLE,
+        "Server is shutting down",
+      );
+      write(ws, {
+        ...("cid" in msg ? { cid: msg.cid } : { id: msg.id }),
+        ...toWire(error),
+      });
+      return;
     }
+
+    if (isCmd(msg)) {
+      await track(handleCommand(ws, msg));
+      return;
+    }
+
+    if (isQuery(msg)) {
+      await track(handleQuery(ws, msg));
+      return;
+    }
+
+    if (isLive(msg)) {
+      await track(handleLive(ws, msg));
+      return;
+    }
+
+    if (isCancel(msg)) {
+      ws.data.queries.get(msg.cancel)?.abort();
+      return;
+    }
+
+    if (isCredit(msg)) {
+      grant(ws, msg.id, msg.credit);
+      return;
+    }
+
+    if (isAuth(msg)) {
+      await queueSessionChange(ws, msg.auth);
+      return;
+    }
+
+    if (isLogout(msg)) {
+      await queueSessionChange(ws, null);
+      return;
+    }
+
+    if (isSub(msg)) {
+      await subscribe(ws, msg.sub, msg.since, msg.node);
+      return;
+    }
+
+    if (isUnsub(msg)) {
+      unsubscribe(ws, msg.unsub);
+    }
+  }
+
+  // The connect-time token from the first configured transport that has one
+  function readToken(req: Request, url: URL): string | null {
+    const transports = options.auth?.transports ?? ["query", "protocol"];
+    for (const transport of transports) {
+      let token: string | null = null;
+      if (transport === "query") {
+        token = url.searchParams.get("token");
+      } else if (transport === "protocol") {
+        const bearer = offeredProtocols(req).find((p) =>
+          p.startsWith(BEARER_PREFIX),
+        );
+        if (bearer) token = decodeBearer(bearer.slice(BEARER_PREFIX.length));
+      } else if (transport === "cookie") {
+        const cookies = new Bun.CookieMap(req.headers.get("cookie") ?? "");
+        token = cookies.get(options.auth?.cookie ?? "seiro_token");
+      }
+      if (token) return token;
+    }
+    return null;
+  }
+
+  function originAllowed(req: Request): boolean {
+    const allowed = options.auth?.origins;
+    if (!allowed) return true;
+    if (typeof allowed === "function") return allowed(req);
+    // Only browsers send Origin, and only browsers attach a site's
+    // cookies for another one, so requests without it are let through
+    const origin = req.headers.get("origin");
+    return origin === null || allowed.includes(origin);
+  }
+
+  function offeredProtocols(req: Request): string[] {
+    const header = req.headers.get("sec-websocket-protocol");
+    return header ? header.split(",").map((p) => p.trim()) : [];
   }
 
   async function start(routes?: Record<string, unknown>) {
     const port = options.port ?? 3000;
+    if (options.backplane) {
+      backplaneReady ??= options.backplane.subscribe(receive);
+      await backplaneReady;
+    }
 
-    return Bun.serve<ClientData>({
+    listener = Bun.serve<ClientData>({
       port,
       routes: routes as Record<string, Response>,
       async fetch(req, server) {
         const url = new URL(req.url);
+        if (url.pathname === "/metrics" && metrics) {
+          return new Response(metrics.render(gauges()), {
+            headers: { "Content-Type": "text/plain; version=0.0.4" },
+          });
+        }
         if (url.pathname === "/health") {
+          // Take this instance out of the load balancer's rotation
+          if (draining) {
+            return new Response("Shutting down", { status: 503 });
+          }
           if (options.healthCheck) {
             try {
               const ok = await options.healthCheck();
@@ -271,52 +1685,146 @@ export function createServer<
           return new Response("OK", { status: 200 });
         }
         if (url.pathname === "/ws") {
-          const token = url.searchParams.get("token");
-          let userId: number | null = null;
+          if (draining) {
+            return new Response("Shutting down", { status: 503 });
+          }
+          if (!originAllowed(req)) {
+            return new Response("Origin not allowed", { status: 403 });
+          }
+          const token = readToken(req, url);
+          let principal: Principal | null = null;
           if (token && options.auth?.verify) {
-            userId = await options.auth.verify(token);
+            principal = toPrincipal(await options.auth.verify(token));
           }
+          // Select our subprotocol so the bearer value is never echoed back.
+          // The client lists codecs in order of preference.
+          const offered = offeredProtocols(req);
+          const protocol = offered.find(
+            (p) => codecs.has(p) || p === SUBPROTOCOL,
+          );
+          const codec = codecs.get(protocol ?? "");
+          const headers = protocol
+            ? { "Sec-WebSocket-Protocol": protocol }
+            : undefined;
+          const id = crypto.randomUUID();
+          // Before upgrading: open may run within upgrade()
+          if (codec) awaitingHello.add(id);
           const upgraded = server.upgrade(req, {
+            headers,
             data: {
-              id: crypto.randomUUID(),
-              userId,
+              id,
+              userId: principal?.id ?? null,
+              principal,
               subscriptions: new Set<string>(),
+              rooms: new Set<string>(),
+              queries: new Map<number, AbortController>(),
+              codec: codec ?? jsonCodec,
             },
           });
-          return upgraded
-            ? undefined
-            : new Response("Upgrade failed", { status: 400 });
+          if (!upgraded) {
+            awaitingHello.delete(id);
+            return new Response("Upgrade failed", { status: 400 });
+          }
+          return undefined;
         }
         return new Response("Not found", { status: 404 });
       },
       websocket: {
         async open(ws) {
           clients.set(ws.data.id, ws);
-          if (openHandler) {
-            try {
-              await openHandler({
-                userId: ws.data.userId,
-                send: (data) => ws.send(encode(data as object)),
-              });
-            } catch (e) {
-              serverLogger.error("onOpen handler failed:", e);
-            }
+          openedAt.set(ws.data.id, Date.now());
+          if (ws.data.userId !== null) {
+            addTo(userSockets, ws.data.userId, ws.data.id);
           }
+          metrics?.connect();
+          notify(hooks.connect, ws.data);
+          // Clients that negotiated a codec start with a hello instead
+          if (!awaitingHello.has(ws.data.id)) await sendProfile(ws);
         },
         message(ws, raw) {
-          handleMessage(ws, raw.toString());
+          handleMessage(ws, raw);
         },
-        close(ws) {
+        // The send buffer has emptied; resume queries paused on it
+        drain(ws) {
+          for (const controller of ws.data.queries.values()) {
+            flows.get(controller)?.resume?.();
+          }
+        },
+        close(ws, code, reason) {
           clients.delete(ws.data.id);
+          awaitingHello.delete(ws.data.id);
+          clearInterval(idleChecks.get(ws.data.id));
+          idleChecks.delete(ws.data.id);
+          lastSeen.delete(ws.data.id);
+          if (ws.data.userId !== null) {
+            removeFrom(userSockets, ws.data.userId, ws.data.id);
+          }
+          for (const room of ws.data.rooms) removeFrom(rooms, room, ws.data.id);
+          limiter?.forget(ws.data.id);
+          for (const controller of ws.data.queries.values()) {
+            controller.abort();
+          }
+          for (const sub of liveSubs) {
+            if (sub.ws === ws) liveSubs.delete(sub);
+          }
           for (const pattern of ws.data.subscriptions) {
             subscriptions.get(pattern)?.delete(ws.data.id);
           }
+          const duration = Date.now() - (openedAt.get(ws.data.id) ?? 0);
+          openedAt.delete(ws.data.id);
+          notify(hooks.disconnect, { client: ws.data, code, reason, duration });
         },
       },
     });
+    return listener;
+  }
+
+  // Graceful shutdown: refuse new connections and fail /health, tell
+  // clients the server is going away, give running commands and queries
+  // up to `drainTimeout` to finish, then close every socket and stop
+  // listening. Live queries never finish, so they end with the socket.
+  async function stop(stopOptions: StopOptions = {}) {
+    const server = listener;
+    if (!server || draining) return;
+    draining = true;
+    for (const ws of clients.values()) {
+      write(ws, { goaway: "Server is shutting down" });
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, stopOptions.drainTimeout ?? 10_000);
+    });
+    await Promise.race([Promise.allSettled([...running]), timeout]);
+    clearTimeout(timer);
+    if (running.size > 0) {
+      serverLogger.warn(
+        `Stopping with ${running.size} commands or queries unfinished`,
+      );
+    }
+    // 1001: going away
+    for (const ws of clients.values()) ws.close(1001, "Server shutting down");
+    await server.stop(true);
+    listener = null;
+    draining = false;
   }
 
-  return { command, query, onOpen, start, emit };
+  return {
+    command,
+    query,
+    use,
+    onOpen,
+    onCommand,
+    onQuery,
+    onEmit,
+    onConnect,
+    onDisconnect,
+    start,
+    stop,
+    emit,
+    toUser,
+    toConnection,
+    toRoom,
+  };
 }
 
 export type Server<
@@ -0,0 +1,156 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { createServer } from "./server";
+import { createClient } from "./client";
+import type { Command, Query } from "./types";
+import { until, sleep, raw } from "./test-helpers";
+
+type TestCommands = {
+  "test.echo": Command<{ value: number }, { value: number }>;
+  "test.slow": Command<{ ms: number }, { done: boolean }>;
+};
+
+type TestQueries = {
+  "test.forever": Query<void, { n: number }>;
+};
+
+const PORT = 3473;
+const WS_URL = `ws://localhost:${PORT}/ws`;
+const HTTP_URL = `http://localhost:${PORT}`;
+
+function createTestServer() {
+  const serverApi = createServer<TestCommands, TestQueries>({ port: PORT });
+
+  serverApi.command("test.echo", async (data) => data);
+
+  serverApi.command("test.slow", async (data) => {
+    await sleep(data.ms);
+    return { done: true };
+  });
+
+  serverApi.query("test.forever", async function* (_params, ctx) {
+    for (let n = 1; !ctx.signal.aborted; n++) {
+      await sleep(10);
+      yield { n };
+    }
+  });
+
+  return serverApi;
+}
+
+describe("graceful shutdown", () => {
+  let serverApi = createTestServer();
+
+  afterEach(async () => {
+    await serverApi.stop({ drainTimeout: 0 });
+  });
+
+  test("running commands finish before sockets close", async () => {
+    serverApi = createTestServer();
+    await serverApi.start();
+    const { ws, messages, opened, closed } = raw(WS_URL);
+    await opened;
+    ws.send(
+      JSON.stringify({
+        cmd: "test.slow",
+        cid: "a",
+        data: { ms: 100 },
+        ack: true,
+      }),
+    );
+    await sleep(20);
+
+    const stopped = serverApi.stop();
+    const event = await closed;
+    await stopped;
+
+    expect(messages).toEqual([
+      { goaway: "Server is shutting down" },
+      { cid: "a", result: { done: true } },
+    ]);
+    expect(event.code).toBe(1001);
+  });
+
+  test("draining refuses new work, connections and health checks", async () => {
+    serverApi = createTestServer();
+    await serverApi.start();
+    const { ws, messages, opened } = raw(WS_URL);
+    await opened;
+    ws.send(
+      JSON.stringify({
+        cmd: "test.slow",
+        cid: "a",
+        data: { ms: 200 },
+        ack: true,
+      }),
+    );
+    await sleep(20);
+
+    const stopped = serverApi.stop();
+    ws.send(
+      JSON.stringify({
+        cmd: "test.echo",
+        cid: "b",
+        data: { value: 1 },
+        ack: true,
+      }),
+    );
+    ws.send(JSON.stringify({ q: "test.forever", id: 1 }));
+    await until(() => messages.length === 3);
+
+    expect(messages.slice(1)).toEqual([
+      {
+        cid: "b",
+        err: "Server is shutting down",
+        code: "unavailable",
+      },
+      { id: 1, err: "Server is shutting down", code: "unavailable" },
+    ]);
+    expect((await fetch(`${HTTP_URL}/health`)).status).toBe(503);
+    expect((await fetch(`${HTTP_URL}/ws`)).status).toBe(503);
+    await stopped;
+  });
+
+  test("the drain timeout cuts off work that doesn't finish", async () => {
+    serverApi = createTestServer();
+    await serverApi.start();
+    const { ws, messages, opened, closed } = raw(WS_URL);
+    await opened;
+    ws.send(JSON.stringify({ q: "test.forever", id: 1 }));
+    await until(() => messages.length > 0);
+
+    const started = Date.now();
+    await serverApi.stop({ drainTimeout: 100 });
+    await closed;
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(100);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(messages).toContainEqual({ goaway: "Server is shutting down" });
+  });
+
+  test("clients replay refused commands on the next server", async () => {
+    serverApi = createTestServer();
+    await serverApi.start();
+    const client = createClient<TestCommands, TestQueries>(WS_URL, {
+      reconnect: { initialDelay: 10 },
+      outbox: true,
+    });
+    await client.connect();
+
+    const slow = client.call("test.slow", { ms: 100 });
+    await sleep(20);
+    const stopped = serverApi.stop();
+    await sleep(20);
+    const echo = client.call("test.echo", { value: 7 });
+
+    expect(await slow).toEqual({ done: true });
+    await stopped;
+    expect(client.pending.value).toHaveLength(1);
+
+    serverApi = createTestServer();
+    await serverApi.start();
+
+    expect(await echo).toEqual({ value: 7 });
+    expect(client.pending.value).toEqual([]);
+    client.close();
+  });
+});
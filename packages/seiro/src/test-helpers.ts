@@ -0,0 +1,38 @@
+// Helpers shared by the test files
+
+// Poll until `check` passes, failing after `timeout` ms
+export function until(check: () => boolean, timeout = 2000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (check()) return resolve();
+      if (Date.now() > deadline) return reject(new Error("Timed out"));
+      setTimeout(poll, 10);
+    };
+    poll();
+  });
+}
+
+export const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Long enough for messages in flight on localhost to arrive
+export const settle = (ms = 50) => sleep(ms);
+
+// A plain WebSocket recording the JSON messages it receives, for tests
+// that look at the wire protocol
+export function raw(url: string, protocols?: string[]) {
+  const ws = new WebSocket(url, protocols);
+  const messages: Record<string, unknown>[] = [];
+  ws.onmessage = (e) => messages.push(JSON.parse(e.data as string));
+  const opened = new Promise((resolve) => (ws.onopen = resolve));
+  const closed = new Promise<CloseEvent>((resolve) => (ws.onclose = resolve));
+  return { ws, messages, opened, closed };
+}
+
+// A raw socket past the profile the server sends on open
+export async function greeted(url: string) {
+  const socket = raw(url);
+  await until(() => socket.messages.length > 0);
+  socket.messages.length = 0;
+  return socket;
+}
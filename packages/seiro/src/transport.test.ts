@@ -0,0 +1,146 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createServer } from "./server";
+import { createClient } from "./client";
+import type { Command } from "./types";
+
+type TestCommands = {
+  "test.whoami": Command<void, { userId: number | null }>;
+};
+
+const PORT = 3460;
+const WS_URL = `ws://localhost:${PORT}/ws`;
+
+describe("token transports", () => {
+  const serverApi = createServer<TestCommands>({
+    port: PORT,
+    auth: {
+      verify: async (token) => {
+        if (token === "valid-token") return 42;
+        if (token === "odd token/+=") return 5;
+        return null;
+      },
+      public: ["test.whoami"],
+      // The query string is deliberately not accepted
+      transports: ["protocol", "cookie"],
+      cookie: "session",
+      origins: ["http://app.example.com"],
+    },
+  });
+  serverApi.command("test.whoami", async (_data, ctx) => ({
+    userId: ctx.userId,
+  }));
+  serverApi.onOpen(async (ctx) => {
+    ctx.send({ profile: ctx.userId ? { id: ctx.userId } : null });
+  });
+
+  let server: Awaited<ReturnType<typeof serverApi.start>>;
+
+  beforeAll(async () => {
+    server = await serverApi.start();
+  });
+
+  afterAll(() => {
+    server?.stop(true);
+  });
+
+  test("protocol transport sends the token as a subprotocol bearer", async () => {
+    const client = createClient<TestCommands>(WS_URL, {
+      token: "valid-token",
+      tokenTransport: "protocol",
+    });
+
+    expect(await client.connect<{ id: number }>()).toEqual({ id: 42 });
+    client.close();
+  });
+
+  test("protocol transport handles tokens with non-token characters", async () => {
+    const client = createClient<TestCommands>(WS_URL, {
+      token: "odd token/+=",
+      tokenTransport: "protocol",
+    });
+
+    expect(await client.connect<{ id: number }>()).toEqual({ id: 5 });
+    client.close();
+  });
+
+  test("server selects the seiro subprotocol, not the bearer", async () => {
+    const ws = new WebSocket(WS_URL, ["seiro", "seiro.bearer.dmFsaWQtdG9rZW4"]);
+    await new Promise((resolve) => (ws.onopen = resolve));
+
+    expect(ws.protocol).toBe("seiro");
+    ws.close();
+  });
+
+  test("query token is ignored when the server does not accept it", async () => {
+    const client = createClient<TestCommands>(WS_URL, { token: "valid-token" });
+
+    expect(await client.connect()).toBeNull();
+    expect(await client.call("test.whoami", undefined as unknown as void)).toEqual({
+      userId: null,
+    });
+    client.close();
+  });
+
+  test("message transport authenticates before the socket is open", async () => {
+    const client = createClient<TestCommands>(WS_URL, {
+      token: "valid-token",
+      tokenTransport: "message",
+    });
+
+    expect(await client.connect<{ id: number }>()).toEqual({ id: 42 });
+    expect(client.status.value).toBe("open");
+    expect(await client.call("test.whoami", undefined as unknown as void)).toEqual({
+      userId: 42,
+    });
+    client.close();
+  });
+
+  test("message transport with a bad token connects anonymously", async () => {
+    const client = createClient<TestCommands>(WS_URL, {
+      token: "expired-token",
+      tokenTransport: "message",
+    });
+
+    expect(await client.connect()).toBeNull();
+    expect(client.status.value).toBe("open");
+    client.close();
+  });
+
+  test("cookie transport reads the configured cookie at upgrade", async () => {
+    // Browsers send the HttpOnly cookie themselves; Bun lets us set it
+    const ws = new WebSocket(WS_URL, {
+      headers: { cookie: "theme=dark; session=valid-token" },
+    } as unknown as string[]);
+    const first = await new Promise<string>((resolve) => {
+      ws.onmessage = (e) => resolve(e.data as string);
+    });
+
+    expect(JSON.parse(first)).toEqual({ profile: { id: 42 } });
+    ws.close();
+  });
+
+  test("sockets opened from another origin are refused", async () => {
+    const upgrade = (origin: string) =>
+      fetch(`http://localhost:${PORT}/ws`, {
+        headers: {
+          connection: "Upgrade",
+          upgrade: "websocket",
+          "sec-websocket-version": "13",
+          "sec-websocket-key": "dGhlIHNhbXBsZSBub25jZQ==",
+          cookie: "session=valid-token",
+          origin,
+        },
+      });
+
+    expect((await upgrade("http://evil.example.com")).status).toBe(403);
+    expect((await upgrade("http://app.example.com")).status).toBe(101);
+  });
+
+  test("the cookie transport requires allowed origins", () => {
+    expect(() =>
+      createServer({
+        auth: { verify: async () => null, public: [], transports: ["cookie"] },
+      }),
+    ).toThrow("auth.origins is required");
+  });
+});